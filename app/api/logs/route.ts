@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyRequestUser } from "@/lib/firebase-admin";
+import { describeSchemaError } from "@/lib/schemas";
+import { LOG_LEVELS, LOG_NAMESPACES, writeLogEntry } from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+const MAX_ENTRIES = 100;
+
+const logBatchSchema = z.object({
+  entries: z
+    .array(
+      z.object({
+        timestamp: z.number(),
+        level: z.enum(LOG_LEVELS).exclude(["silent"]),
+        namespace: z.enum(LOG_NAMESPACES),
+        message: z.string().max(2000),
+        data: z.array(z.unknown()).default([]),
+      })
+    )
+    .max(MAX_ENTRIES),
+});
+
+// Collect log entries batched by the browser's HTTP log sink into the server
+// log, tagged with the user they came from
+export async function POST(request: Request) {
+  const user = await verifyRequestUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const batch = logBatchSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!batch.success) {
+    return NextResponse.json(
+      { error: describeSchemaError(batch.error) },
+      { status: 400 }
+    );
+  }
+
+  batch.data.entries.forEach((entry) => {
+    writeLogEntry({
+      ...entry,
+      message: `[client ${user.uid}] ${entry.message}`,
+    });
+  });
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { verifyRequestUser } from "@/lib/firebase-admin";
+import { createIceServers } from "@/lib/turn-credentials";
+
+export const dynamic = "force-dynamic";
+
+// Hand out ICE servers with short-lived TURN credentials to signed-in users
+export async function GET(request: Request) {
+  const user = await verifyRequestUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json(createIceServers(user.uid), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -17,6 +17,13 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -34,14 +41,20 @@ import {
   LogOut,
   Loader2,
   AlertTriangle,
+  Settings2,
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { RoomTopology } from "@/lib/schemas";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("room");
 
 export default function DashboardPage() {
   const { user, loading: authLoading, signOut } = useAuth();
   const { rooms, createRoom, joinRoom, isJoiningRoom, joinError } = useRoom();
   const [newRoomName, setNewRoomName] = useState("");
+  const [newRoomTopology, setNewRoomTopology] = useState<RoomTopology>("mesh");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [joiningRoomId, setJoiningRoomId] = useState<string | null>(null);
@@ -51,7 +64,7 @@ export default function DashboardPage() {
   // Don't redirect while auth is loading
   useEffect(() => {
     if (!authLoading && !user) {
-      console.log("No user found, redirecting to login");
+      log.debug("No user found, redirecting to login");
       router.replace("/login");
     }
   }, [user, authLoading, router]);
@@ -63,18 +76,18 @@ export default function DashboardPage() {
     setIsLoading(true);
     setError(null);
     try {
-      console.log("Creating new room:", newRoomName);
-      const roomId = await createRoom(newRoomName);
-      console.log("Room created successfully, ID:", roomId);
+      log.debug("Creating new room:", newRoomName);
+      const roomId = await createRoom(newRoomName, newRoomTopology);
+      log.debug("Room created successfully, ID:", roomId);
       setIsDialogOpen(false);
 
       // Add a longer delay to ensure the room is created in Firebase
       setTimeout(() => {
-        console.log("Navigating to room:", roomId);
+        log.debug("Navigating to room:", roomId);
         router.push(`/room/${roomId}`);
       }, 1000);
     } catch (error: any) {
-      console.error("Error creating room:", error);
+      log.error("Error creating room:", error);
       setError(error.message || "Failed to create room");
     } finally {
       setIsLoading(false);
@@ -87,16 +100,16 @@ export default function DashboardPage() {
     setJoiningRoomId(roomId);
     setError(null);
     try {
-      console.log("Joining room:", roomId);
+      log.debug("Joining room:", roomId);
       await joinRoom(roomId);
 
       // Add a longer delay to ensure the room is joined in Firebase
       setTimeout(() => {
-        console.log("Navigating to room:", roomId);
+        log.debug("Navigating to room:", roomId);
         router.push(`/room/${roomId}`);
       }, 1000);
     } catch (error: any) {
-      console.error("Error joining room:", error);
+      log.error("Error joining room:", error);
       setError(error.message || "Failed to join room");
       setJoiningRoomId(null);
     }
@@ -107,7 +120,7 @@ export default function DashboardPage() {
       await signOut();
       router.replace("/");
     } catch (error) {
-      console.error("Error signing out:", error);
+      log.error("Error signing out:", error);
     }
   };
 
@@ -143,6 +156,14 @@ export default function DashboardPage() {
             <span className="text-sm text-muted-foreground">
               Welcome, {user.displayName || user.email}
             </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push("/test")}
+            >
+              <Settings2 className="mr-2 h-4 w-4" />
+              Test your setup
+            </Button>
             <Button variant="ghost" size="icon" onClick={handleSignOut}>
               <LogOut className="h-5 w-5" />
               <span className="sr-only">Sign out</span>
@@ -178,6 +199,27 @@ export default function DashboardPage() {
                     className="mt-2"
                     required
                   />
+                  <Label htmlFor="room-topology" className="mt-4 block">
+                    Meeting Size
+                  </Label>
+                  <Select
+                    value={newRoomTopology}
+                    onValueChange={(value) =>
+                      setNewRoomTopology(value as RoomTopology)
+                    }
+                  >
+                    <SelectTrigger id="room-topology" className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mesh">
+                        Small (up to 4 people, direct connections)
+                      </SelectItem>
+                      <SelectItem value="sfu">
+                        Large (routed through the media server)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
                 {error && (
                   <Alert variant="destructive" className="mb-4">
@@ -232,6 +274,9 @@ export default function DashboardPage() {
                         ? "s"
                         : ""}
                     </span>
+                    {room.topology === "sfu" && (
+                      <span className="ml-auto text-xs">Large meeting</span>
+                    )}
                   </div>
                 </CardContent>
                 <CardFooter>
@@ -3,6 +3,7 @@ import "./globals.css"
 import type { Metadata } from "next"
 import { Inter } from "next/font/google"
 import { ThemeProvider } from "@/components/theme-provider"
+import { Toaster } from "@/components/ui/toaster"
 import { AuthProvider } from "@/contexts/auth-context"
 import { RoomProvider } from "@/contexts/room-context"
 import { WebRTCProvider } from "@/contexts/webrtc-context"
@@ -32,6 +33,7 @@ export default function RootLayout({
               </WebRTCProvider>
             </RoomProvider>
           </AuthProvider>
+          <Toaster />
         </ThemeProvider>
       </body>
     </html>
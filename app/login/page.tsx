@@ -18,6 +18,9 @@ import {
 import { Label } from "@/components/ui/label";
 import Link from "next/link";
 import { Video, Loader2 } from "lucide-react";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("auth");
 
 export default function LoginPage() {
   const [email, setEmail] = useState("");
@@ -30,7 +33,7 @@ export default function LoginPage() {
   // Don't redirect while auth is loading
   useEffect(() => {
     if (!authLoading && user) {
-      console.log("User found, redirecting to dashboard");
+      log.debug("User found, redirecting to dashboard");
       router.replace("/dashboard");
     }
   }, [user, authLoading, router]);
@@ -44,7 +47,7 @@ export default function LoginPage() {
       await signIn(email, password);
       router.replace("/dashboard");
     } catch (error: any) {
-      console.error("Login error:", error);
+      log.error("Login error:", error);
 
       // Handle specific Firebase errors with user-friendly messages
       if (error.code === "auth/configuration-not-found") {
@@ -6,7 +6,7 @@ import { useEffect, useState, useRef, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/auth-context";
 import { useRoom } from "@/contexts/room-context";
-import { useWebRTC } from "@/contexts/webrtc-context";
+import { LOCAL_PEER_ID, useWebRTC } from "@/contexts/webrtc-context";
 import { useChat } from "@/contexts/chat-context";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,6 +14,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
 import {
   Mic,
   MicOff,
@@ -31,8 +32,30 @@ import {
   Settings,
   Wifi,
   WifiOff,
+  Download,
+  Volume2,
+  LayoutGrid,
+  Pin,
+  PinOff,
+  Star,
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { layerForSize } from "@/lib/simulcast";
+import { CallStatsPanel } from "@/components/call-stats-panel";
+import { NetworkQualityIndicator } from "@/components/network-quality-indicator";
+import { PreJoinLobby } from "@/components/pre-join-lobby";
+import {
+  LAYOUT_MODES,
+  VideoLayout,
+  isLayoutMode,
+  type LayoutMode,
+  type VideoTile,
+} from "@/components/video-layout";
+import {
+  isAudioOutputSelectionSupported,
+  playTestSound,
+  setAudioOutput,
+} from "@/lib/audio-output";
 import {
   Dialog,
   DialogContent,
@@ -49,8 +72,66 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import type { Participant, ParticipantMedia } from "@/lib/schemas";
+import {
+  isNoiseGateSupported,
+  type AudioProcessingSettings,
+} from "@/lib/audio-pipeline";
+import { toast } from "@/hooks/use-toast";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("room");
+
+// Suffixed with the user's uid, so each account keeps its own layout
+const LAYOUT_STORAGE_KEY = "room:layout";
+
+const AUDIO_PROCESSING_OPTIONS: {
+  key: keyof AudioProcessingSettings;
+  label: string;
+  description: string;
+}[] = [
+  {
+    key: "echoCancellation",
+    label: "Echo cancellation",
+    description: "Stop others hearing themselves through your speakers",
+  },
+  {
+    key: "noiseSuppression",
+    label: "Noise suppression",
+    description: "Filter out steady background noise such as fans",
+  },
+  {
+    key: "autoGainControl",
+    label: "Automatic gain",
+    description: "Keep your voice at an even volume",
+  },
+  {
+    key: "noiseGate",
+    label: "Noise gate",
+    description: "Silence your microphone between words",
+  },
+];
 
 export default function RoomPage() {
   const { id } = useParams<{ id: string }>();
@@ -62,6 +143,12 @@ export default function RoomPage() {
     isJoiningRoom,
     joinError,
     getRoom,
+    otherSessionIds,
+    moveSessionHere,
+    sessionMovedAway,
+    sessionId,
+    isHost,
+    setSpotlight,
   } = useRoom();
   const {
     localStream,
@@ -85,13 +172,22 @@ export default function RoomPage() {
     mediaState,
     setSelectedVideoDevice,
     setSelectedAudioDevice,
+    setSelectedAudioOutputDevice,
+    audioProcessing,
+    setAudioProcessing,
     reconnectPeers,
+    isDataSaverEnabled,
+    setDataSaverEnabled,
+    networkQuality,
+    isLocalUplinkPoor,
+    downloadDiagnostics,
+    speakingPeerIds,
+    activeSpeakerId,
     connectionStatus,
   } = useWebRTC();
   const { messages, sendMessage, setRoomId } = useChat();
   const [message, setMessage] = useState("");
   const router = useRouter();
-  const localVideoRef = useRef<HTMLVideoElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [isJoining, setIsJoining] = useState(true);
   const [setupError, setSetupError] = useState<string | null>(null);
@@ -105,15 +201,43 @@ export default function RoomPage() {
   const [isRefreshingMedia, setIsRefreshingMedia] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
   const [webRTCErrorState, setWebRTCError] = useState<string | null>(null);
+  const [isMovePromptDismissed, setIsMovePromptDismissed] = useState(false);
+  const [canSelectAudioOutput, setCanSelectAudioOutput] = useState(false);
+  const [canUseNoiseGate, setCanUseNoiseGate] = useState(false);
+  const [isPlayingTestSound, setIsPlayingTestSound] = useState(false);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>("gallery");
+  // Set when the user picks a layout while someone is sharing their screen
+  const [isShareLayoutDismissed, setIsShareLayoutDismissed] = useState(false);
+  const remoteSharerId = peers.find((peer) => peer.media?.screen)?.id ?? null;
+  // Tile pinned by this user only; kept large whoever is speaking
+  const [pinnedId, setPinnedId] = useState<string | null>(null);
+  // Tile the host spotlighted for everyone
+  const spotlightSessionId = currentRoom?.spotlight ?? null;
+  const spotlightId =
+    spotlightSessionId && spotlightSessionId === sessionId
+      ? LOCAL_PEER_ID
+      : spotlightSessionId;
+  // Set when the user leaves the pre-join lobby; the room is joined after
+  const [lobbyDisplayName, setLobbyDisplayName] = useState<string | null>(null);
 
   // Store the room ID in a ref to avoid dependency issues
   useEffect(() => {
     if (id) {
       roomIdRef.current = id as string;
-      console.log("Room ID set from params:", id);
+      log.debug("Room ID set from params:", id);
     }
   }, [id]);
 
+  // Speaker selection needs setSinkId, which only exists in the browser
+  useEffect(() => {
+    setCanSelectAudioOutput(isAudioOutputSelectionSupported());
+  }, []);
+
+  // The noise gate needs AudioWorklet, which only exists in the browser
+  useEffect(() => {
+    setCanUseNoiseGate(isNoiseGateSupported());
+  }, []);
+
   // First, verify that the room exists
   useEffect(() => {
     const verifyRoom = async () => {
@@ -121,20 +245,20 @@ export default function RoomPage() {
 
       setIsVerifyingRoom(true);
       try {
-        console.log(`Verifying room exists: ${roomIdRef.current}`);
+        log.debug(`Verifying room exists: ${roomIdRef.current}`);
         const room = await getRoom(roomIdRef.current);
 
         if (room) {
-          console.log(`Room verified: ${room.name}`, room);
+          log.debug(`Room verified: ${room.name}`, room);
           setRoomExists(true);
           setRoomData(room);
         } else {
-          console.log(`Room not found: ${roomIdRef.current}`);
+          log.debug(`Room not found: ${roomIdRef.current}`);
           setRoomExists(false);
           setSetupError(`Room ${roomIdRef.current} not found`);
         }
       } catch (error) {
-        console.error("Error verifying room:", error);
+        log.error("Error verifying room:", error);
         setRoomExists(false);
         setSetupError("Error verifying room");
       } finally {
@@ -155,9 +279,10 @@ export default function RoomPage() {
       setupStartedRef.current ||
       !roomIdRef.current ||
       !user ||
-      !roomExists
+      !roomExists ||
+      lobbyDisplayName === null
     ) {
-      console.log("Returning with params:", {
+      log.debug("Returning with params:", {
         setupCompleted: setupCompletedRef.current,
         setupStarted: setupStartedRef.current,
         roomId: roomIdRef.current,
@@ -168,7 +293,7 @@ export default function RoomPage() {
     }
 
     const roomId = roomIdRef.current;
-    console.log(`Starting room setup for room: ${roomId}`);
+    log.debug(`Starting room setup for room: ${roomId}`);
 
     // Mark setup as started to prevent multiple attempts
     setupStartedRef.current = true;
@@ -177,31 +302,36 @@ export default function RoomPage() {
 
     try {
       // Step 1: Join the room
-      console.log("Step 1: Joining room...");
-      await joinRoom(roomId);
-      console.log("Room joined successfully");
+      log.debug("Step 1: Joining room...");
+      const sessionId = await joinRoom(roomId, lobbyDisplayName);
+      if (!sessionId) {
+        throw new Error("Failed to start a session in this room");
+      }
+      log.debug(`Room joined successfully as session ${sessionId}`);
 
       // Step 2: Set up WebRTC
-      console.log("Step 2: Setting up WebRTC...");
-      await joinWebRTCRoom(roomId, currentRoom);
-      console.log("WebRTC room joined successfully");
+      log.debug("Step 2: Setting up WebRTC...");
+      await joinWebRTCRoom(roomId, currentRoom, sessionId, {
+        displayName: lobbyDisplayName,
+      });
+      log.debug("WebRTC room joined successfully");
 
       // Step 3: Set up chat
-      console.log("Step 3: Setting up chat...");
+      log.debug("Step 3: Setting up chat...");
       setRoomId(roomId);
-      console.log("Chat room set successfully");
+      log.debug("Chat room set successfully");
 
       // Mark setup as completed
       setupCompletedRef.current = true;
-      console.log("Room setup completed successfully");
+      log.debug("Room setup completed successfully");
     } catch (error: any) {
-      console.error("Error during room setup:", error);
+      log.error("Error during room setup:", error);
       setSetupError(error.message || "Failed to set up room");
 
       // If there's an error, navigate back to dashboard after a delay
       setTimeout(() => {
         if (router) {
-          console.log("Navigating back to dashboard due to setup error");
+          log.debug("Navigating back to dashboard due to setup error");
           router.replace("/dashboard");
         }
       }, 3000);
@@ -209,17 +339,25 @@ export default function RoomPage() {
       setIsJoining(false);
       setupStartedRef.current = false;
     }
-  }, [user, joinRoom, joinWebRTCRoom, setRoomId, router, roomExists]);
+  }, [
+    user,
+    joinRoom,
+    joinWebRTCRoom,
+    setRoomId,
+    router,
+    roomExists,
+    lobbyDisplayName,
+  ]);
 
   // Effect to check if user is logged in
   useEffect(() => {
     if (authLoading) {
-      console.log("Auth is still loading, waiting...");
+      log.debug("Auth is still loading, waiting...");
       return;
     }
 
     if (!user) {
-      console.log("No user found, redirecting to login");
+      log.debug("No user found, redirecting to login");
       router.replace("/login");
     }
   }, [user, authLoading, router]);
@@ -227,7 +365,7 @@ export default function RoomPage() {
   // Separate effect for room setup
   useEffect(() => {
     if (authLoading || isVerifyingRoom) {
-      console.log("Still loading, waiting for setup...");
+      log.debug("Still loading, waiting for setup...");
       return;
     }
 
@@ -235,17 +373,18 @@ export default function RoomPage() {
       user &&
       roomIdRef.current &&
       roomExists &&
+      lobbyDisplayName !== null &&
       !setupCompletedRef.current &&
       !setupStartedRef.current
     ) {
-      console.log("Starting room setup...");
+      log.debug("Starting room setup...");
       setupRoom();
     }
 
     // Cleanup function
     return () => {
       if (setupCompletedRef.current) {
-        console.log("Cleaning up room page");
+        log.debug("Cleaning up room page");
         // leaveWebRTCRoom();
         // leaveRoom();
         // setRoomId(null);
@@ -260,16 +399,75 @@ export default function RoomPage() {
     setRoomId,
     isVerifyingRoom,
     roomExists,
+    lobbyDisplayName,
   ]);
 
-  // Update the useEffect for local video
+  // The call was moved to another device of this user; hang up here
+  useEffect(() => {
+    if (!sessionMovedAway) return;
+
+    log.debug("Call moved to another device, leaving room");
+    setupCompletedRef.current = false;
+    leaveWebRTCRoom();
+    leaveRoom();
+    setRoomId(null);
+  }, [sessionMovedAway]);
+
+  // Attach the local stream to the self-view. A callback ref, because the
+  // tile moves between layouts and every move mounts a new video element.
+  const attachLocalVideo = useCallback(
+    (video: HTMLVideoElement | null) => {
+      if (video) {
+        video.srcObject = mediaState.hasVideo ? localStream : null;
+      }
+    },
+    [localStream, mediaState.hasVideo]
+  );
+
+  // Restore this user's preferred layout
+  useEffect(() => {
+    if (!user) return;
+    try {
+      const saved = localStorage.getItem(`${LAYOUT_STORAGE_KEY}:${user.uid}`);
+      if (isLayoutMode(saved)) {
+        setLayoutMode(saved);
+      }
+    } catch (error) {
+      log.error("Error reading layout preference:", error);
+    }
+  }, [user?.uid]);
+
+  // Drop the pin once the pinned participant leaves
   useEffect(() => {
-    if (localVideoRef.current) {
-      localVideoRef.current.srcObject = mediaState.hasVideo
-        ? localStream
-        : null;
+    if (
+      pinnedId &&
+      pinnedId !== LOCAL_PEER_ID &&
+      !peers.some((peer) => peer.id === pinnedId)
+    ) {
+      setPinnedId(null);
     }
-  }, [localStream, mediaState.hasVideo]);
+  }, [peers, pinnedId]);
+
+  // The host clears the spotlight once that participant leaves
+  useEffect(() => {
+    if (
+      !isHost ||
+      !spotlightSessionId ||
+      currentRoom?.participants[spotlightSessionId]
+    ) {
+      return;
+    }
+    setSpotlight(null).catch((error) =>
+      log.error("Error clearing spotlight:", error)
+    );
+  }, [isHost, spotlightSessionId, currentRoom?.participants]);
+
+  // Follow the next screen share again once this one ends
+  useEffect(() => {
+    if (!remoteSharerId) {
+      setIsShareLayoutDismissed(false);
+    }
+  }, [remoteSharerId]);
 
   // Effect to scroll chat to bottom
   useEffect(() => {
@@ -297,7 +495,7 @@ export default function RoomPage() {
     try {
       await toggleScreenShare();
     } catch (error) {
-      console.error("Error toggling screen share:", error);
+      log.error("Error toggling screen share:", error);
     }
   };
 
@@ -312,7 +510,7 @@ export default function RoomPage() {
         );
       }
     } catch (error) {
-      console.error("Error refreshing media:", error);
+      log.error("Error refreshing media:", error);
       setWebRTCError(
         "An error occurred while refreshing media. Please try again."
       );
@@ -321,13 +519,79 @@ export default function RoomPage() {
     }
   };
 
+  const handleLayoutChange = (mode: LayoutMode) => {
+    setLayoutMode(mode);
+    if (remoteSharerId) {
+      setIsShareLayoutDismissed(true);
+    }
+    if (!user) return;
+    try {
+      localStorage.setItem(`${LAYOUT_STORAGE_KEY}:${user.uid}`, mode);
+    } catch (error) {
+      log.error("Error saving layout preference:", error);
+    }
+  };
+
+  const handleTogglePin = (tileId: string) => {
+    setPinnedId((current) => (current === tileId ? null : tileId));
+  };
+
+  const handleToggleSpotlight = async (tileSessionId: string) => {
+    try {
+      await setSpotlight(
+        spotlightSessionId === tileSessionId ? null : tileSessionId
+      );
+    } catch (error) {
+      log.error("Error changing spotlight:", error);
+      toast({
+        title: "Spotlight not changed",
+        description: "Failed to change the spotlight. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAudioProcessingChange = (
+    key: keyof AudioProcessingSettings,
+    enabled: boolean
+  ) => {
+    setAudioProcessing({ ...audioProcessing, [key]: enabled }).catch((error) =>
+      log.error("Error changing audio processing:", error)
+    );
+  };
+
+  // Play a tone through the selected speaker
+  const handlePlayTestSound = async () => {
+    setIsPlayingTestSound(true);
+    try {
+      await playTestSound(mediaState.selectedAudioOutputDevice);
+    } catch (error) {
+      log.error("Error playing test sound:", error);
+      setWebRTCError("Could not play a sound through the selected speaker.");
+    } finally {
+      setIsPlayingTestSound(false);
+    }
+  };
+
+  // End the call on this user's other devices
+  const handleMoveSessionHere = async () => {
+    try {
+      await moveSessionHere();
+    } catch (error) {
+      log.error("Error moving call here:", error);
+      setWebRTCError("Failed to move the call to this device.");
+    } finally {
+      setIsMovePromptDismissed(true);
+    }
+  };
+
   // Handle reconnect
   const handleReconnect = async () => {
     setIsReconnecting(true);
     try {
       await reconnectPeers(roomIdRef.current!);
     } catch (error) {
-      console.error("Error reconnecting:", error);
+      log.error("Error reconnecting:", error);
       setWebRTCError(
         "Failed to reconnect. Please try again or rejoin the meeting."
       );
@@ -417,6 +681,25 @@ export default function RoomPage() {
     );
   }
 
+  if (sessionMovedAway) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <MonitorSmartphone className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h2 className="text-2xl font-bold mb-2">
+            Call moved to another device
+          </h2>
+          <p className="text-muted-foreground mb-6">
+            You joined this meeting from another device, so it was ended here
+          </p>
+          <Button className="mt-4" onClick={() => router.replace("/dashboard")}>
+            Back to Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   if (!roomExists) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -434,6 +717,16 @@ export default function RoomPage() {
     );
   }
 
+  if (lobbyDisplayName === null) {
+    return (
+      <PreJoinLobby
+        roomName={roomData?.name ?? "Meeting"}
+        onJoin={setLobbyDisplayName}
+        onCancel={() => router.replace("/dashboard")}
+      />
+    );
+  }
+
   if (isJoining || isJoiningRoom) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -490,21 +783,291 @@ export default function RoomPage() {
     );
   }
 
-  // Calculate grid layout
-  const totalParticipants = peers.length + 1; // Including local user
-  let gridCols = 1;
+  // Group sessions by user, so someone on several devices is listed once
+  const participantsByUser: Record<string, [string, Participant][]> = {};
+  Object.entries(
+    displayRoom.participants as Record<string, Participant>
+  ).forEach(([id, participant]) => {
+    (participantsByUser[participant.uid] ||= []).push([id, participant]);
+  });
+  const remoteUsers = Object.entries(participantsByUser)
+    .filter(([uid]) => uid !== user.uid)
+    .map(
+      ([uid, sessions]) =>
+        [uid, sessions.sort(([, a], [, b]) => a.joined - b.joined)] as const
+    );
+
+  // Someone else's screen share takes over the layout until it ends, unless
+  // the user picks another layout meanwhile. A pin, then the host's
+  // spotlight, decides the large tile; the gallery has none, so it gives way
+  // to the speaker layout while either is set.
+  const speakerId = activeSpeakerId ?? peers[0]?.id ?? null;
+  const chosenFocusId = pinnedId ?? spotlightId;
+  const effectiveLayout: LayoutMode =
+    peers.length === 0
+      ? "gallery"
+      : remoteSharerId && !isShareLayoutDismissed
+      ? "screen-share"
+      : chosenFocusId && layoutMode === "gallery"
+      ? "speaker"
+      : layoutMode;
+  const focusId =
+    chosenFocusId ??
+    (effectiveLayout === "screen-share"
+      ? remoteSharerId ?? (isScreenSharing ? LOCAL_PEER_ID : speakerId)
+      : speakerId);
+
+  // Every tile in the call; the layout decides where each one goes
+  const tiles: VideoTile[] = [
+    {
+      id: LOCAL_PEER_ID,
+      node: (
+        <div
+          className={`group relative h-full w-full bg-black rounded-lg overflow-hidden ring-offset-2 transition-shadow ${
+            speakingPeerIds.includes(LOCAL_PEER_ID)
+              ? "ring-2 ring-green-500"
+              : ""
+          }`}
+        >
+          {/* Always render the video element, hide if no video */}
+          <video
+            ref={attachLocalVideo}
+            autoPlay
+            playsInline
+            muted
+            className={`h-full w-full object-cover ${
+              !mediaState.hasVideo ? "hidden" : ""
+            }`}
+          />
+
+          {/* Show fallback if no video/audio */}
+          {!mediaState.hasVideo && !mediaState.hasAudio && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-800 text-white">
+              <AlertTriangle className="h-12 w-12 mb-2 text-yellow-400" />
+              <p className="text-center px-4">
+                No camera or microphone detected
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-4 bg-gray-700 hover:bg-gray-600 text-white"
+                onClick={() => setIsMediaSettingsOpen(true)}
+              >
+                Configure Media
+              </Button>
+            </div>
+          )}
+
+          {/* Show audio-only fallback */}
+          {!mediaState.hasVideo && mediaState.hasAudio && (
+            <div className="absolute inset-0 flex items-center justify-center bg-gray-800 text-white">
+              <div className="text-center">
+                <Avatar className="h-24 w-24 mx-auto">
+                  <AvatarFallback className="text-3xl">
+                    {(lobbyDisplayName || user.displayName)?.charAt(0) || "U"}
+                  </AvatarFallback>
+                </Avatar>
+                <p className="mt-4">
+                  {lobbyDisplayName || user.displayName || "You"}
+                </p>
+                <p className="text-xs mt-1 text-gray-400">Audio only</p>
+              </div>
+            </div>
+          )}
 
-  if (totalParticipants === 1) {
-    gridCols = 1;
-  } else if (totalParticipants <= 4) {
-    gridCols = 2;
-  } else {
-    gridCols = 3;
+          <div className="absolute bottom-2 left-2 bg-black/50 px-2 py-1 rounded text-white text-xs flex items-center gap-1">
+            {spotlightId === LOCAL_PEER_ID && (
+              <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+            )}
+            {pinnedId === LOCAL_PEER_ID && <Pin className="h-3 w-3" />}
+            <span>You</span>
+            {!isAudioEnabled && <MicOff className="h-3 w-3 text-red-400" />}
+            {!mediaState.hasVideo && (
+              <VideoOff className="h-3 w-3 text-red-400" />
+            )}
+          </div>
+
+          {/* Media status indicators */}
+          <div className="absolute top-2 right-2 flex gap-1">
+            {!mediaState.hasVideo && (
+              <div className="bg-red-500 text-white text-xs px-2 py-1 rounded-full flex items-center">
+                <VideoOff className="h-3 w-3 mr-1" />
+                <span>No camera</span>
+              </div>
+            )}
+            {!mediaState.hasAudio && (
+              <div className="bg-red-500 text-white text-xs px-2 py-1 rounded-full flex items-center">
+                <MicOff className="h-3 w-3 mr-1" />
+                <span>No microphone</span>
+              </div>
+            )}
+          </div>
+
+          <TileActions
+            isPinned={pinnedId === LOCAL_PEER_ID}
+            isSpotlighted={spotlightId === LOCAL_PEER_ID}
+            canSpotlight={isHost && !!sessionId}
+            onTogglePin={() => handleTogglePin(LOCAL_PEER_ID)}
+            onToggleSpotlight={() =>
+              sessionId && handleToggleSpotlight(sessionId)
+            }
+          />
+
+          {/* Refresh media button */}
+          {(!mediaState.hasVideo || !mediaState.hasAudio) && (
+            <Button
+              variant="secondary"
+              size="sm"
+              className="absolute bottom-2 right-2"
+              onClick={handleRefreshMedia}
+              disabled={isRefreshingMedia}
+            >
+              {isRefreshingMedia ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+              <span className="ml-1">
+                {isRefreshingMedia ? "Refreshing..." : "Refresh"}
+              </span>
+            </Button>
+          )}
+        </div>
+      ),
+    },
+    ...peers.map((peer) => ({
+      id: peer.id,
+      node: (
+        <div
+          className={`group relative h-full w-full bg-black rounded-lg overflow-hidden ring-offset-2 transition-shadow ${
+            speakingPeerIds.includes(peer.id) ? "ring-2 ring-green-500" : ""
+          }`}
+        >
+          {peer.stream ? (
+            <PeerVideo
+              key={peer.id}
+              peerId={peer.id}
+              stream={peer.stream}
+              displayName={peer.displayName}
+              media={peer.media}
+            />
+          ) : (
+            <div className="flex h-full items-center justify-center bg-gray-800 text-white">
+              <div className="text-center">
+                <Avatar className="h-20 w-20 mx-auto">
+                  <AvatarFallback>{peer.displayName.charAt(0)}</AvatarFallback>
+                </Avatar>
+                <p className="mt-2">{peer.displayName}</p>
+                <p className="text-xs mt-1 text-gray-400">Connecting...</p>
+              </div>
+            </div>
+          )}
+          <div className="absolute bottom-2 left-2 bg-black/50 px-2 py-1 rounded text-white text-xs flex items-center gap-1">
+            {spotlightId === peer.id && (
+              <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+            )}
+            {pinnedId === peer.id && <Pin className="h-3 w-3" />}
+            <span>
+              {peer.displayName}
+              {peer.uid === user.uid && " (your other device)"}
+            </span>
+            {peer.media && !peer.media.audio && (
+              <MicOff className="h-3 w-3 text-red-400" />
+            )}
+            {peer.media && !peer.media.video && !peer.media.screen && (
+              <VideoOff className="h-3 w-3 text-red-400" />
+            )}
+          </div>
+          {peer.media?.screen && (
+            <div className="absolute top-2 right-2 bg-blue-500 text-white text-xs px-2 py-1 rounded-full flex items-center">
+              <MonitorSmartphone className="h-3 w-3 mr-1" />
+              <span>Presenting</span>
+            </div>
+          )}
+          <div className="absolute top-2 left-2">
+            <NetworkQualityIndicator
+              quality={networkQuality[peer.id] ?? networkQuality.sfu}
+              viaServer={!networkQuality[peer.id]}
+            />
+          </div>
+          <TileActions
+            isPinned={pinnedId === peer.id}
+            isSpotlighted={spotlightId === peer.id}
+            canSpotlight={isHost}
+            onTogglePin={() => handleTogglePin(peer.id)}
+            onToggleSpotlight={() => handleToggleSpotlight(peer.id)}
+          />
+        </div>
+      ),
+    })),
+  ];
+  if (peers.length === 0) {
+    tiles.push({
+      id: "waiting",
+      node: (
+        <div className="relative h-full w-full bg-gray-800 rounded-lg overflow-hidden flex items-center justify-center text-white">
+          <div className="text-center">
+            <Users className="h-16 w-16 mx-auto mb-4 text-gray-600" />
+            <h3 className="text-lg font-medium">Waiting for others</h3>
+            <p className="text-sm text-gray-400 mt-2">
+              {connectionStatus === "connected"
+                ? "You're the only one here"
+                : connectionStatus === "connecting"
+                ? "Establishing connection..."
+                : "Connection issue. Try reconnecting"}
+            </p>
+            {(connectionStatus === "disconnected" ||
+              connectionStatus === "failed") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReconnect}
+                disabled={isReconnecting}
+                className="mt-4 bg-gray-700 hover:bg-gray-600 text-white"
+              >
+                {isReconnecting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Reconnecting...
+                  </>
+                ) : (
+                  <>
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Reconnect
+                  </>
+                )}
+              </Button>
+            )}
+          </div>
+        </div>
+      ),
+    });
   }
-  console.log("PEERS:", peers);
-  console.log("error:", webRTCError);
+
   return (
     <div className="flex h-screen flex-col bg-gray-50 dark:bg-gray-900">
+      {/* This account is also in the meeting on another tab or device */}
+      <AlertDialog
+        open={otherSessionIds.length > 0 && !isMovePromptDismissed}
+        onOpenChange={(open) => !open && setIsMovePromptDismissed(true)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Joined from another device</AlertDialogTitle>
+            <AlertDialogDescription>
+              This account is also in this meeting on another device. Move the
+              call here? The other device will leave the meeting.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Stay on both</AlertDialogCancel>
+            <AlertDialogAction onClick={handleMoveSessionHere}>
+              Move here
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {webRTCError && (
         <div className="fixed top-4 right-4 z-50 max-w-md bg-destructive text-destructive-foreground p-4 rounded-lg shadow-lg">
           <div className="flex items-start gap-2">
@@ -526,6 +1089,16 @@ export default function RoomPage() {
         </div>
       )}
 
+      {isLocalUplinkPoor && (
+        <div className="fixed top-20 left-1/2 z-40 -translate-x-1/2 max-w-md bg-yellow-100 dark:bg-yellow-900/80 text-yellow-900 dark:text-yellow-100 px-4 py-2 rounded-lg shadow-lg flex items-center gap-2 text-sm">
+          <WifiOff className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Your network connection is unstable. Others may not see or hear you
+            clearly.
+          </span>
+        </div>
+      )}
+
       <header className="fixed top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
         <div className="container flex h-16 items-center justify-between">
           <div className="flex items-center gap-2">
@@ -573,11 +1146,11 @@ export default function RoomPage() {
                   <Settings className="h-4 w-4" />
                 </Button>
               </DialogTrigger>
-              <DialogContent>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>Media Settings</DialogTitle>
                   <DialogDescription>
-                    Configure your camera and microphone settings
+                    Configure your camera, microphone and speaker settings
                   </DialogDescription>
                 </DialogHeader>
 
@@ -645,6 +1218,99 @@ export default function RoomPage() {
                     </Select>
                   </div>
 
+                  {canSelectAudioOutput && (
+                    <div className="space-y-2">
+                      <Label htmlFor="speaker">Speaker</Label>
+                      <div className="flex gap-2">
+                        <Select
+                          value={mediaState.selectedAudioOutputDevice || ""}
+                          onValueChange={(value) =>
+                            setSelectedAudioOutputDevice(value)
+                          }
+                          disabled={mediaState.audioOutputDevices.length === 0}
+                        >
+                          <SelectTrigger id="speaker">
+                            <SelectValue
+                              placeholder={
+                                mediaState.audioOutputDevices.length === 0
+                                  ? "System default"
+                                  : "Select speaker"
+                              }
+                            />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {mediaState.audioOutputDevices.map((device) => (
+                              <SelectItem
+                                key={device.deviceId}
+                                value={device.deviceId}
+                              >
+                                {device.label ||
+                                  `Speaker ${device.deviceId.substring(
+                                    0,
+                                    5
+                                  )}...`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="outline"
+                          onClick={handlePlayTestSound}
+                          disabled={isPlayingTestSound}
+                        >
+                          <Volume2 className="mr-2 h-4 w-4" />
+                          {isPlayingTestSound ? "Playing..." : "Test"}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="space-y-3">
+                    <Label>Microphone processing</Label>
+                    {AUDIO_PROCESSING_OPTIONS.map(
+                      ({ key, label, description }) => (
+                        <div
+                          key={key}
+                          className="flex items-center justify-between gap-4"
+                        >
+                          <div className="space-y-1">
+                            <Label
+                              htmlFor={`audio-${key}`}
+                              className="font-normal"
+                            >
+                              {label}
+                            </Label>
+                            <p className="text-xs text-muted-foreground">
+                              {description}
+                            </p>
+                          </div>
+                          <Switch
+                            id={`audio-${key}`}
+                            checked={audioProcessing[key]}
+                            onCheckedChange={(checked) =>
+                              handleAudioProcessingChange(key, checked)
+                            }
+                            disabled={key === "noiseGate" && !canUseNoiseGate}
+                          />
+                        </div>
+                      )
+                    )}
+                  </div>
+
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="data-saver">Data saver</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Send lower quality video to use less upload bandwidth
+                      </p>
+                    </div>
+                    <Switch
+                      id="data-saver"
+                      checked={isDataSaverEnabled}
+                      onCheckedChange={setDataSaverEnabled}
+                    />
+                  </div>
+
                   <div className="space-y-2">
                     <Label>Media Status</Label>
                     <div className="flex flex-col gap-2 text-sm">
@@ -713,9 +1379,18 @@ export default function RoomPage() {
                       </div>
                     </div>
                   </div>
+
+                  <div className="space-y-2">
+                    <Label>Call Statistics</Label>
+                    <CallStatsPanel />
+                  </div>
                 </div>
 
-                <DialogFooter>
+                <DialogFooter className="gap-2 sm:gap-0">
+                  <Button variant="outline" onClick={downloadDiagnostics}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Download Diagnostics
+                  </Button>
                   <Button
                     onClick={handleRefreshMedia}
                     disabled={isRefreshingMedia}
@@ -747,168 +1422,17 @@ export default function RoomPage() {
       <div className="flex flex-1 overflow-hidden">
         <div className="flex-1 overflow-hidden">
           <div className="h-full p-4">
-            <div
-              className={`grid h-full gap-4 grid-cols-1 md:grid-cols-${gridCols}`}
-            >
-              <div className="relative aspect-video bg-black rounded-lg overflow-hidden">
-                {/* Always render the video element, hide if no video */}
-                <video
-                  ref={localVideoRef}
-                  autoPlay
-                  playsInline
-                  muted
-                  className={`h-full w-full object-cover ${
-                    !mediaState.hasVideo ? "hidden" : ""
-                  }`}
-                />
-
-                {/* Show fallback if no video/audio */}
-                {!mediaState.hasVideo && !mediaState.hasAudio && (
-                  <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-800 text-white">
-                    <AlertTriangle className="h-12 w-12 mb-2 text-yellow-400" />
-                    <p className="text-center px-4">
-                      No camera or microphone detected
-                    </p>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="mt-4 bg-gray-700 hover:bg-gray-600 text-white"
-                      onClick={() => setIsMediaSettingsOpen(true)}
-                    >
-                      Configure Media
-                    </Button>
-                  </div>
-                )}
-
-                {/* Show audio-only fallback */}
-                {!mediaState.hasVideo && mediaState.hasAudio && (
-                  <div className="absolute inset-0 flex items-center justify-center bg-gray-800 text-white">
-                    <div className="text-center">
-                      <Avatar className="h-24 w-24 mx-auto">
-                        <AvatarFallback className="text-3xl">
-                          {user.displayName?.charAt(0) || "U"}
-                        </AvatarFallback>
-                      </Avatar>
-                      <p className="mt-4">{user.displayName || "You"}</p>
-                      <p className="text-xs mt-1 text-gray-400">Audio only</p>
-                    </div>
-                  </div>
-                )}
-
-                <div className="absolute bottom-2 left-2 bg-black/50 px-2 py-1 rounded text-white text-xs flex items-center gap-1">
-                  <span>You</span>
-                  {!isAudioEnabled && (
-                    <MicOff className="h-3 w-3 text-red-400" />
-                  )}
-                  {!mediaState.hasVideo && (
-                    <VideoOff className="h-3 w-3 text-red-400" />
-                  )}
-                </div>
-
-                {/* Media status indicators */}
-                <div className="absolute top-2 right-2 flex gap-1">
-                  {!mediaState.hasVideo && (
-                    <div className="bg-red-500 text-white text-xs px-2 py-1 rounded-full flex items-center">
-                      <VideoOff className="h-3 w-3 mr-1" />
-                      <span>No camera</span>
-                    </div>
-                  )}
-                  {!mediaState.hasAudio && (
-                    <div className="bg-red-500 text-white text-xs px-2 py-1 rounded-full flex items-center">
-                      <MicOff className="h-3 w-3 mr-1" />
-                      <span>No microphone</span>
-                    </div>
-                  )}
-                </div>
-
-                {/* Refresh media button */}
-                {(!mediaState.hasVideo || !mediaState.hasAudio) && (
-                  <Button
-                    variant="secondary"
-                    size="sm"
-                    className="absolute bottom-2 right-2"
-                    onClick={handleRefreshMedia}
-                    disabled={isRefreshingMedia}
-                  >
-                    {isRefreshingMedia ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : (
-                      <RefreshCw className="h-4 w-4" />
-                    )}
-                    <span className="ml-1">
-                      {isRefreshingMedia ? "Refreshing..." : "Refresh"}
-                    </span>
-                  </Button>
-                )}
-              </div>
-
-              {peers.map((peer) => (
-                <div
-                  key={peer.id}
-                  className="relative aspect-video bg-black rounded-lg overflow-hidden"
-                >
-                  {peer.stream ? (
-                    <PeerVideo key={peer.id} stream={peer.stream} />
-                  ) : (
-                    <div className="flex h-full items-center justify-center bg-gray-800 text-white">
-                      <div className="text-center">
-                        <Avatar className="h-20 w-20 mx-auto">
-                          <AvatarFallback>
-                            {peer.displayName.charAt(0)}
-                          </AvatarFallback>
-                        </Avatar>
-                        <p className="mt-2">{peer.displayName}</p>
-                        <p className="text-xs mt-1 text-gray-400">
-                          Connecting...
-                        </p>
-                      </div>
-                    </div>
-                  )}
-                  <div className="absolute bottom-2 left-2 bg-black/50 px-2 py-1 rounded text-white text-xs">
-                    {peer.displayName}
-                  </div>
-                </div>
-              ))}
-
-              {/* Show empty participant slots with connection status when no peers */}
-              {peers.length === 0 && (
-                <div className="relative aspect-video bg-gray-800 rounded-lg overflow-hidden flex items-center justify-center text-white">
-                  <div className="text-center">
-                    <Users className="h-16 w-16 mx-auto mb-4 text-gray-600" />
-                    <h3 className="text-lg font-medium">Waiting for others</h3>
-                    <p className="text-sm text-gray-400 mt-2">
-                      {connectionStatus === "connected"
-                        ? "You're the only one here"
-                        : connectionStatus === "connecting"
-                        ? "Establishing connection..."
-                        : "Connection issue. Try reconnecting"}
-                    </p>
-                    {(connectionStatus === "disconnected" ||
-                      connectionStatus === "failed") && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={handleReconnect}
-                        disabled={isReconnecting}
-                        className="mt-4 bg-gray-700 hover:bg-gray-600 text-white"
-                      >
-                        {isReconnecting ? (
-                          <>
-                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            Reconnecting...
-                          </>
-                        ) : (
-                          <>
-                            <RefreshCw className="mr-2 h-4 w-4" />
-                            Reconnect
-                          </>
-                        )}
-                      </Button>
-                    )}
-                  </div>
-                </div>
-              )}
-            </div>
+            <VideoLayout
+              mode={effectiveLayout}
+              tiles={tiles}
+              focusId={focusId}
+            />
+            {/* Remote audio plays here rather than from the tiles, which are
+                unmounted while they are on another gallery page */}
+            {peers.map(
+              (peer) =>
+                peer.stream && <PeerAudio key={peer.id} stream={peer.stream} />
+            )}
           </div>
         </div>
 
@@ -995,8 +1519,7 @@ export default function RoomPage() {
               <ScrollArea className="h-full p-4">
                 <div className="space-y-4">
                   <div className="font-medium">
-                    Participants ({Object.keys(displayRoom.participants).length}
-                    )
+                    Participants ({remoteUsers.length + 1})
                   </div>
                   <div className="space-y-2">
                     {/* Local user */}
@@ -1004,12 +1527,15 @@ export default function RoomPage() {
                       <div className="flex items-center gap-2">
                         <Avatar className="h-8 w-8">
                           <AvatarFallback>
-                            {user.displayName?.charAt(0) || "U"}
+                            {(lobbyDisplayName || user.displayName)?.charAt(
+                              0
+                            ) || "U"}
                           </AvatarFallback>
                         </Avatar>
                         <div>
                           <div className="text-sm font-medium">
-                            {user.displayName || "You"} (You)
+                            {lobbyDisplayName || user.displayName || "You"}{" "}
+                            (You)
                           </div>
                           <div className="flex items-center gap-2 text-xs text-muted-foreground">
                             {mediaState.hasAudio ? (
@@ -1035,55 +1561,109 @@ export default function RoomPage() {
                               </span>
                             )}
                           </div>
+                          {otherSessionIds.length > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              Also on {otherSessionIds.length} other device
+                              {otherSessionIds.length !== 1 ? "s" : ""}
+                            </div>
+                          )}
                         </div>
                       </div>
+                      {otherSessionIds.length > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleMoveSessionHere}
+                        >
+                          Move here
+                        </Button>
+                      )}
                     </div>
 
-                    {/* Remote participants */}
-                    {Object.entries(displayRoom.participants)
-                      .filter(([id]) => id !== user.uid)
-                      .map(([id, participant]: [string, any]) => (
-                        <div
-                          key={id}
-                          className="flex items-center justify-between"
-                        >
-                          <div className="flex items-center gap-2">
-                            <Avatar className="h-8 w-8">
-                              <AvatarFallback>
-                                {participant.displayName.charAt(0)}
-                              </AvatarFallback>
-                            </Avatar>
-                            <div>
-                              <div className="text-sm font-medium">
-                                {participant.displayName}
-                              </div>
-                              <div className="text-xs text-muted-foreground">
-                                Joined{" "}
-                                {formatDistanceToNow(participant.joined, {
-                                  addSuffix: true,
-                                })}
-                              </div>
-                            </div>
-                          </div>
-                          <div>
-                            {peers.find((p) => p.id === id)?.stream ? (
-                              <Badge
-                                variant="outline"
-                                className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400 text-xs"
-                              >
-                                Connected
-                              </Badge>
-                            ) : (
-                              <Badge
-                                variant="outline"
-                                className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400 text-xs"
-                              >
-                                Connecting
-                              </Badge>
+                    {/* Remote participants, one entry per user */}
+                    {remoteUsers.map(([uid, sessions]) => (
+                      <div key={uid} className="flex items-start gap-2">
+                        <Avatar className="h-8 w-8">
+                          <AvatarFallback>
+                            {sessions[0][1].displayName.charAt(0)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1 space-y-1">
+                          <div className="text-sm font-medium">
+                            {sessions[0][1].displayName}
+                            {sessions.length > 1 && (
+                              <span className="ml-1 text-xs font-normal text-muted-foreground">
+                                ({sessions.length} devices)
+                              </span>
                             )}
                           </div>
+                          {sessions.map(([id, participant], index) => (
+                            <div
+                              key={id}
+                              className="flex items-center justify-between"
+                            >
+                              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                <span>
+                                  {sessions.length > 1 &&
+                                    `Device ${index + 1} · `}
+                                  Joined{" "}
+                                  {formatDistanceToNow(participant.joined, {
+                                    addSuffix: true,
+                                  })}
+                                </span>
+                                {participant.media && (
+                                  <>
+                                    {participant.media.audio ? (
+                                      <Mic
+                                        className="h-3 w-3"
+                                        aria-label="Unmuted"
+                                      />
+                                    ) : (
+                                      <MicOff
+                                        className="h-3 w-3 text-red-400"
+                                        aria-label="Muted"
+                                      />
+                                    )}
+                                    {participant.media.video ? (
+                                      <VideoIcon
+                                        className="h-3 w-3"
+                                        aria-label="Video on"
+                                      />
+                                    ) : (
+                                      <VideoOff
+                                        className="h-3 w-3 text-red-400"
+                                        aria-label="Video off"
+                                      />
+                                    )}
+                                    {participant.media.screen && (
+                                      <MonitorSmartphone
+                                        className="h-3 w-3 text-blue-500"
+                                        aria-label="Sharing screen"
+                                      />
+                                    )}
+                                  </>
+                                )}
+                              </div>
+                              {peers.find((p) => p.id === id)?.stream ? (
+                                <Badge
+                                  variant="outline"
+                                  className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400 text-xs"
+                                >
+                                  Connected
+                                </Badge>
+                              ) : (
+                                <Badge
+                                  variant="outline"
+                                  className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400 text-xs"
+                                >
+                                  Connecting
+                                </Badge>
+                              )}
+                            </div>
+                          ))}
                         </div>
-                      ))}
+                      </div>
+                    ))}
                   </div>
                 </div>
               </ScrollArea>
@@ -1184,6 +1764,37 @@ export default function RoomPage() {
             </span>
           </Button>
 
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                className="rounded-full h-12 w-12"
+                title="Change layout"
+              >
+                <LayoutGrid className="h-5 w-5" />
+                <span className="sr-only">Change layout</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent side="top">
+              <DropdownMenuLabel>Layout</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuRadioGroup
+                value={effectiveLayout}
+                onValueChange={(value) =>
+                  isLayoutMode(value) && handleLayoutChange(value)
+                }
+              >
+                {LAYOUT_MODES.map(({ mode, label, icon: Icon }) => (
+                  <DropdownMenuRadioItem key={mode} value={mode}>
+                    <Icon className="mr-2 h-4 w-4" />
+                    {label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
           <Button
             variant="outline"
             size="icon"
@@ -1224,32 +1835,41 @@ export default function RoomPage() {
   );
 }
 
-const PeerVideo = ({ stream }: { stream: MediaStream }) => {
+const PeerVideo = ({
+  peerId,
+  stream,
+  displayName,
+  media,
+}: {
+  peerId: string;
+  stream: MediaStream;
+  displayName: string;
+  media?: ParticipantMedia;
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [hasVideo, setHasVideo] = useState(false);
   const [hasAudio, setHasAudio] = useState(false);
-
-  console.log("Rendering PeerVideo with stream:", stream);
+  const { requestVideoLayer } = useWebRTC();
 
   useEffect(() => {
     if (!stream) {
-      console.log("No stream provided to PeerVideo");
+      log.debug("No stream provided to PeerVideo");
       return;
     }
 
     // Log all tracks
     const videoTracks = stream.getVideoTracks();
     const audioTracks = stream.getAudioTracks();
-    console.log(
+    log.debug(
       `Stream has ${videoTracks.length} video tracks and ${audioTracks.length} audio tracks`
     );
 
     videoTracks.forEach((track) => {
-      console.log("Video track:", track.id, track.enabled, track.readyState);
+      log.debug("Video track:", track.id, track.enabled, track.readyState);
     });
 
     audioTracks.forEach((track) => {
-      console.log("Audio track:", track.id, track.enabled, track.readyState);
+      log.debug("Audio track:", track.id, track.enabled, track.readyState);
     });
 
     setHasVideo(videoTracks.length > 0);
@@ -1258,7 +1878,7 @@ const PeerVideo = ({ stream }: { stream: MediaStream }) => {
     if (videoRef.current) {
       videoRef.current.srcObject = stream;
       videoRef.current.play().catch((error) => {
-        console.error("Error playing video:", error);
+        log.error("Error playing video:", error);
       });
     }
 
@@ -1270,25 +1890,54 @@ const PeerVideo = ({ stream }: { stream: MediaStream }) => {
     };
   }, [stream]);
 
+  // Only receive as much video as the tile can show
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || typeof ResizeObserver === "undefined") return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (width > 0 && height > 0) {
+        requestVideoLayer(peerId, layerForSize(width, height));
+      }
+    });
+    observer.observe(video);
+    return () => {
+      observer.disconnect();
+      // Off screen, e.g. on another gallery page; the smallest layer keeps
+      // the video ready to show without using the bandwidth
+      requestVideoLayer(peerId, "low");
+    };
+  }, [peerId]);
+
+  // A disabled camera track keeps sending black frames, so the published
+  // state decides whether to show the video or the avatar
+  const isCameraOff = !!media && !media.video && !media.screen;
+  const isMuted = !!media && !media.audio;
+
   return (
     <div className="relative h-full w-full">
+      {/* Muted because PeerAudio plays the sound */}
       <video
         ref={videoRef}
         autoPlay
         playsInline
-        className={`h-full w-full object-cover ${!hasVideo ? "hidden" : ""}`}
+        muted
+        className={`h-full w-full ${
+          media?.screen ? "object-contain" : "object-cover"
+        } ${!hasVideo || isCameraOff ? "hidden" : ""}`}
       />
 
       {/* Display avatar if no video */}
-      {!hasVideo && (
+      {(!hasVideo || isCameraOff) && (
         <div className="absolute inset-0 flex items-center justify-center bg-gray-800 text-white">
           <div className="text-center">
             <Avatar className="h-20 w-20 mx-auto">
               <AvatarFallback className="text-2xl bg-primary">
-                {hasAudio ? "A" : "?"}
+                {hasAudio ? displayName.charAt(0) || "A" : "?"}
               </AvatarFallback>
             </Avatar>
-            <p className="mt-2">Audio Only</p>
+            <p className="mt-2">{hasVideo ? "Camera off" : "Audio Only"}</p>
           </div>
         </div>
       )}
@@ -1296,9 +1945,84 @@ const PeerVideo = ({ stream }: { stream: MediaStream }) => {
       {/* Audio indicator */}
       {hasAudio && (
         <div className="absolute bottom-2 right-2 bg-black/50 px-2 py-1 rounded text-white text-xs">
-          <Mic className="h-3 w-3" />
+          {isMuted ? (
+            <MicOff className="h-3 w-3 text-red-400" />
+          ) : (
+            <Mic className="h-3 w-3" />
+          )}
         </div>
       )}
     </div>
   );
 };
+
+// Plays a peer's audio whether or not their tile is on screen
+const PeerAudio = ({ stream }: { stream: MediaStream }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const { mediaState } = useWebRTC();
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.srcObject = stream;
+    audio.play().catch((error) => {
+      log.error("Error playing audio:", error);
+    });
+    return () => {
+      audio.srcObject = null;
+    };
+  }, [stream]);
+
+  // Play through the speaker picked in the lobby or media settings
+  useEffect(() => {
+    if (audioRef.current) {
+      setAudioOutput(audioRef.current, mediaState.selectedAudioOutputDevice);
+    }
+  }, [mediaState.selectedAudioOutputDevice]);
+
+  return <audio ref={audioRef} autoPlay className="hidden" />;
+};
+
+// Shown over a tile on hover. Pinning only changes this user's layout;
+// the spotlight changes everyone's, so only the host gets that button.
+const TileActions = ({
+  isPinned,
+  isSpotlighted,
+  canSpotlight,
+  onTogglePin,
+  onToggleSpotlight,
+}: {
+  isPinned: boolean;
+  isSpotlighted: boolean;
+  canSpotlight: boolean;
+  onTogglePin: () => void;
+  onToggleSpotlight: () => void;
+}) => (
+  <div className="absolute top-2 left-1/2 -translate-x-1/2 flex gap-1 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+    <Button
+      variant="secondary"
+      size="icon"
+      className="h-7 w-7"
+      onClick={onTogglePin}
+      title={isPinned ? "Unpin" : "Pin for me"}
+    >
+      {isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+    </Button>
+    {canSpotlight && (
+      <Button
+        variant="secondary"
+        size="icon"
+        className="h-7 w-7"
+        onClick={onToggleSpotlight}
+        title={isSpotlighted ? "Remove spotlight" : "Spotlight for everyone"}
+      >
+        <Star
+          className={`h-4 w-4 ${
+            isSpotlighted ? "fill-yellow-400 text-yellow-400" : ""
+          }`}
+        />
+      </Button>
+    )}
+  </div>
+);
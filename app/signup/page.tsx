@@ -18,6 +18,9 @@ import {
 import { Label } from "@/components/ui/label";
 import Link from "next/link";
 import { Video } from "lucide-react";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("auth");
 
 export default function SignupPage() {
   const [displayName, setDisplayName] = useState("");
@@ -43,7 +46,7 @@ export default function SignupPage() {
       await signUp(email, password, displayName);
       router.push("/dashboard");
     } catch (error: any) {
-      console.error("Signup error:", error);
+      log.error("Signup error:", error);
 
       // Handle specific Firebase errors with user-friendly messages
       if (error.code === "auth/configuration-not-found") {
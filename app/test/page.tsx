@@ -0,0 +1,486 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/auth-context";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle2,
+  Gauge,
+  Loader2,
+  Mic,
+  VideoIcon,
+  Volume2,
+  Wifi,
+  XCircle,
+} from "lucide-react";
+import { getMediaConstraints } from "@/lib/media-constraints";
+import {
+  AUDIO_PROCESSING_STORAGE_KEY,
+  parseAudioProcessingSettings,
+} from "@/lib/audio-pipeline";
+import { playTestSound } from "@/lib/audio-output";
+import { getIceConfiguration } from "@/lib/ice-servers";
+import {
+  measureLoopbackBitrate,
+  testIceConnectivity,
+  type IceConnectivityResult,
+  type LoopbackResult,
+} from "@/lib/call-test";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("webrtc");
+
+// Bitrate needed for good 720p video; below it calls fall back to lower layers
+const GOOD_BITRATE = 1500;
+
+export default function TestPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const meterFrameRef = useRef<number | null>(null);
+  const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
+  const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
+  const [selectedVideoDevice, setSelectedVideoDevice] = useState<string | null>(
+    null
+  );
+  const [selectedAudioDevice, setSelectedAudioDevice] = useState<string | null>(
+    null
+  );
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [hasVideo, setHasVideo] = useState(false);
+  const [hasAudio, setHasAudio] = useState(false);
+  const [micLevel, setMicLevel] = useState(0);
+  const [mediaError, setMediaError] = useState<string | null>(null);
+  const [isPlayingTone, setIsPlayingTone] = useState(false);
+  const [isTestingNetwork, setIsTestingNetwork] = useState(false);
+  const [iceResult, setIceResult] = useState<IceConnectivityResult | null>(
+    null
+  );
+  const [loopbackResult, setLoopbackResult] = useState<LoopbackResult | null>(
+    null
+  );
+  const [networkError, setNetworkError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      log.debug("No user found, redirecting to login");
+      router.replace("/login");
+    }
+  }, [user, authLoading, router]);
+
+  const stopCapture = () => {
+    if (meterFrameRef.current !== null) {
+      cancelAnimationFrame(meterFrameRef.current);
+      meterFrameRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    setMicLevel(0);
+  };
+
+  // Release the camera and microphone when leaving the page
+  useEffect(() => stopCapture, []);
+
+  // Peak level of the microphone, redrawn every frame
+  const startMicMeter = (stream: MediaStream) => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+
+    const samples = new Uint8Array(analyser.fftSize);
+    const update = () => {
+      analyser.getByteTimeDomainData(samples);
+      let peak = 0;
+      samples.forEach((sample) => {
+        peak = Math.max(peak, Math.abs(sample - 128));
+      });
+      setMicLevel(Math.min(100, (peak / 128) * 100 * 1.5));
+      meterFrameRef.current = requestAnimationFrame(update);
+    };
+    update();
+  };
+
+  const startCapture = async (
+    videoDeviceId = selectedVideoDevice,
+    audioDeviceId = selectedAudioDevice
+  ) => {
+    stopCapture();
+    setMediaError(null);
+
+    try {
+      // Capture with the microphone processing picked for calls
+      const audioProcessing = parseAudioProcessingSettings(
+        localStorage.getItem(AUDIO_PROCESSING_STORAGE_KEY)
+      );
+      const stream = await navigator.mediaDevices.getUserMedia(
+        getMediaConstraints(
+          true,
+          true,
+          videoDeviceId,
+          audioDeviceId,
+          audioProcessing
+        )
+      );
+      streamRef.current = stream;
+      setIsCapturing(true);
+      setHasVideo(stream.getVideoTracks().length > 0);
+      setHasAudio(stream.getAudioTracks().length > 0);
+
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+      }
+      if (stream.getAudioTracks().length > 0) {
+        startMicMeter(stream);
+      }
+
+      // Labels are only available once permission has been granted
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      setVideoDevices(devices.filter((device) => device.kind === "videoinput"));
+      setAudioDevices(devices.filter((device) => device.kind === "audioinput"));
+      setSelectedVideoDevice(
+        stream.getVideoTracks()[0]?.getSettings().deviceId ?? null
+      );
+      setSelectedAudioDevice(
+        stream.getAudioTracks()[0]?.getSettings().deviceId ?? null
+      );
+    } catch (error) {
+      log.error("Error starting media test:", error);
+      setIsCapturing(false);
+      setHasVideo(false);
+      setHasAudio(false);
+      setMediaError(
+        "Could not access your camera and microphone. Please check your browser permissions."
+      );
+    }
+  };
+
+  // A short tone through the default output device
+  const playTestTone = async () => {
+    setIsPlayingTone(true);
+    try {
+      await playTestSound(null);
+    } catch (error) {
+      log.error("Error playing test tone:", error);
+    } finally {
+      setIsPlayingTone(false);
+    }
+  };
+
+  const runNetworkTest = async () => {
+    if (!user) return;
+    setIsTestingNetwork(true);
+    setNetworkError(null);
+    setIceResult(null);
+    setLoopbackResult(null);
+
+    try {
+      const configuration = await getIceConfiguration(user);
+      const connectivity = await testIceConnectivity(configuration);
+      setIceResult(connectivity);
+
+      const track = streamRef.current?.getVideoTracks()[0];
+      if (!track) {
+        setNetworkError("Start the camera test to measure bandwidth.");
+        return;
+      }
+      // Relaying through TURN makes the loopback cross the real network
+      setLoopbackResult(
+        await measureLoopbackBitrate(
+          track,
+          connectivity.relay
+            ? { ...configuration, iceTransportPolicy: "relay" }
+            : configuration
+        )
+      );
+    } catch (error) {
+      log.error("Error running network test:", error);
+      setNetworkError("The network test could not be completed.");
+    } finally {
+      setIsTestingNetwork(false);
+    }
+  };
+
+  if (authLoading || !user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-3xl py-8 space-y-6">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => router.push("/dashboard")}
+        >
+          <ArrowLeft className="h-5 w-5" />
+          <span className="sr-only">Back to dashboard</span>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold">Test your setup</h1>
+          <p className="text-muted-foreground">
+            Check your camera, microphone, speakers and network before joining a
+            meeting
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <VideoIcon className="h-5 w-5" />
+            Camera and microphone
+          </CardTitle>
+          <CardDescription>Uses the same settings as a meeting</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {mediaError && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Media error</AlertTitle>
+              <AlertDescription>{mediaError}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="relative aspect-video bg-black rounded-lg overflow-hidden">
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className={`h-full w-full object-cover ${
+                !hasVideo ? "hidden" : ""
+              }`}
+            />
+            {!hasVideo && (
+              <div className="absolute inset-0 flex items-center justify-center text-gray-400">
+                {isCapturing ? "No camera detected" : "Camera is off"}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Mic className="h-4 w-4" />
+              Microphone level
+            </Label>
+            <Progress value={hasAudio ? micLevel : 0} />
+            {isCapturing && !hasAudio && (
+              <p className="text-sm text-muted-foreground">
+                No microphone detected
+              </p>
+            )}
+          </div>
+
+          {isCapturing && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="test-camera">Camera</Label>
+                <Select
+                  value={selectedVideoDevice || ""}
+                  onValueChange={(value) => {
+                    setSelectedVideoDevice(value);
+                    startCapture(value, selectedAudioDevice);
+                  }}
+                  disabled={videoDevices.length === 0}
+                >
+                  <SelectTrigger id="test-camera">
+                    <SelectValue placeholder="Select camera" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {videoDevices.map((device) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId}>
+                        {device.label ||
+                          `Camera ${device.deviceId.substring(0, 5)}...`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="test-microphone">Microphone</Label>
+                <Select
+                  value={selectedAudioDevice || ""}
+                  onValueChange={(value) => {
+                    setSelectedAudioDevice(value);
+                    startCapture(selectedVideoDevice, value);
+                  }}
+                  disabled={audioDevices.length === 0}
+                >
+                  <SelectTrigger id="test-microphone">
+                    <SelectValue placeholder="Select microphone" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {audioDevices.map((device) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId}>
+                        {device.label ||
+                          `Microphone ${device.deviceId.substring(0, 5)}...`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button onClick={() => startCapture()}>
+            {isCapturing ? "Restart test" : "Start camera and microphone"}
+          </Button>
+          {isCapturing && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                stopCapture();
+                setIsCapturing(false);
+                setHasVideo(false);
+                setHasAudio(false);
+              }}
+            >
+              Stop
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Volume2 className="h-5 w-5" />
+            Speakers
+          </CardTitle>
+          <CardDescription>
+            You should hear a short tone from your speakers or headphones
+          </CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button
+            variant="outline"
+            onClick={playTestTone}
+            disabled={isPlayingTone}
+          >
+            {isPlayingTone ? "Playing..." : "Play test sound"}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wifi className="h-5 w-5" />
+            Network
+          </CardTitle>
+          <CardDescription>
+            Checks which connection types work from this network and how much
+            video bandwidth is available
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {networkError && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{networkError}</AlertDescription>
+            </Alert>
+          )}
+
+          {iceResult && (
+            <div className="space-y-2 text-sm">
+              <TestResult
+                passed={iceResult.udp}
+                label="UDP"
+                detail="Fastest path for audio and video"
+              />
+              <TestResult
+                passed={iceResult.tcp}
+                label="TCP relay"
+                detail="Fallback when UDP is blocked by a firewall"
+              />
+              <TestResult
+                passed={iceResult.relay}
+                label="TURN relay"
+                detail="Needed when a direct connection is not possible"
+              />
+            </div>
+          )}
+
+          {loopbackResult && (
+            <div className="flex items-center gap-2 text-sm">
+              <Gauge className="h-4 w-4" />
+              <span>
+                {Math.round(loopbackResult.bitrate)} kbps
+                {loopbackResult.route && ` via ${loopbackResult.route}`}
+              </span>
+              <span className="text-muted-foreground">
+                {loopbackResult.bitrate >= GOOD_BITRATE
+                  ? "Enough for HD video"
+                  : "Video quality may be reduced"}
+              </span>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button onClick={runNetworkTest} disabled={isTestingNetwork}>
+            {isTestingNetwork ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Testing...
+              </>
+            ) : (
+              "Run network test"
+            )}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
+
+const TestResult = ({
+  passed,
+  label,
+  detail,
+}: {
+  passed: boolean;
+  label: string;
+  detail: string;
+}) => (
+  <div className="flex items-center gap-2">
+    {passed ? (
+      <CheckCircle2 className="h-4 w-4 text-green-500" />
+    ) : (
+      <XCircle className="h-4 w-4 text-red-500" />
+    )}
+    <span className="font-medium">{label}</span>
+    <span className="text-muted-foreground">{detail}</span>
+  </div>
+);
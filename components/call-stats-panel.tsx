@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { useWebRTC } from "@/contexts/webrtc-context";
+import {
+  summarizeStats,
+  type CallStatsSample,
+  type PeerStatsReport,
+} from "@/lib/call-stats";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("webrtc");
+
+const POLL_INTERVAL = 1000;
+// One minute of history per peer
+const MAX_SAMPLES = 60;
+
+const bitrateChartConfig = {
+  inboundBitrate: { label: "Inbound kbps", color: "hsl(var(--chart-1))" },
+  outboundBitrate: { label: "Outbound kbps", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const latencyChartConfig = {
+  roundTripTime: { label: "RTT ms", color: "hsl(var(--chart-3))" },
+  jitter: { label: "Jitter ms", color: "hsl(var(--chart-4))" },
+  packetLoss: { label: "Loss %", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+const formatNumber = (value: number | null, unit = "") =>
+  value === null ? "-" : `${Math.round(value)}${unit}`;
+
+// Polls getStats() for every connection while mounted and charts the last
+// minute of bitrate, latency and loss per peer
+export const CallStatsPanel = () => {
+  const { peers, getPeerStats } = useWebRTC();
+  const [history, setHistory] = useState<Record<string, CallStatsSample[]>>({});
+  const getPeerStatsRef = useRef(getPeerStats);
+  getPeerStatsRef.current = getPeerStats;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = async () => {
+      let stats: PeerStatsReport[];
+      try {
+        stats = await getPeerStatsRef.current();
+      } catch (error) {
+        log.error("Error collecting call statistics:", error);
+        return;
+      }
+      if (cancelled) return;
+
+      setHistory((prevHistory) => {
+        const nextHistory: Record<string, CallStatsSample[]> = {};
+        stats.forEach(({ peerId, reports }) => {
+          const samples = prevHistory[peerId] ?? [];
+          const sample = summarizeStats(reports, samples[samples.length - 1]);
+          nextHistory[peerId] = [...samples, sample].slice(-MAX_SAMPLES);
+        });
+        return nextHistory;
+      });
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  const peerIds = Object.keys(history);
+  if (peerIds.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No active connections yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {peerIds.map((peerId) => {
+        const samples = history[peerId];
+        const latest = samples[samples.length - 1];
+        const name =
+          peerId === "sfu"
+            ? "Media server"
+            : peers.find((peer) => peer.id === peerId)?.displayName ?? peerId;
+        // The first sample has no previous totals to compute rates from
+        const chartData = samples.slice(1).map((sample) => ({
+          time: new Date(sample.timestamp).toLocaleTimeString(),
+          inboundBitrate: Math.round(sample.inboundBitrate),
+          outboundBitrate: Math.round(sample.outboundBitrate),
+          roundTripTime: sample.roundTripTime,
+          jitter: sample.jitter,
+          packetLoss: sample.packetLoss,
+        }));
+
+        return (
+          <div key={peerId} className="space-y-2">
+            <p className="text-sm font-medium">{name}</p>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+              <span className="text-muted-foreground">Inbound</span>
+              <span>
+                {formatNumber(latest.inboundBitrate, " kbps")} ·{" "}
+                {latest.inboundResolution ?? "-"} ·{" "}
+                {formatNumber(latest.inboundFps, " fps")}
+              </span>
+              <span className="text-muted-foreground">Outbound</span>
+              <span>
+                {formatNumber(latest.outboundBitrate, " kbps")} ·{" "}
+                {latest.outboundResolution ?? "-"} ·{" "}
+                {formatNumber(latest.outboundFps, " fps")}
+              </span>
+              <span className="text-muted-foreground">Packet loss</span>
+              <span>{latest.packetLoss.toFixed(1)}%</span>
+              <span className="text-muted-foreground">Jitter / RTT</span>
+              <span>
+                {formatNumber(latest.jitter, " ms")} /{" "}
+                {formatNumber(latest.roundTripTime, " ms")}
+              </span>
+              <span className="text-muted-foreground">Route</span>
+              <span>{latest.candidateType ?? "-"}</span>
+              <span className="text-muted-foreground">Codec</span>
+              <span>{latest.codec ?? "-"}</span>
+            </div>
+
+            <ChartContainer config={bitrateChartConfig} className="h-32 w-full">
+              <LineChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="time" hide />
+                <YAxis width={40} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  dataKey="inboundBitrate"
+                  stroke="var(--color-inboundBitrate)"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="outboundBitrate"
+                  stroke="var(--color-outboundBitrate)"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ChartContainer>
+
+            <ChartContainer config={latencyChartConfig} className="h-32 w-full">
+              <LineChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="time" hide />
+                <YAxis width={40} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  dataKey="roundTripTime"
+                  stroke="var(--color-roundTripTime)"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="jitter"
+                  stroke="var(--color-jitter)"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="packetLoss"
+                  stroke="var(--color-packetLoss)"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ChartContainer>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
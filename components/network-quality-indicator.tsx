@@ -0,0 +1,67 @@
+"use client";
+
+import type { NetworkQuality } from "@/lib/network-quality";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+
+const LEVEL_LABELS: Record<NetworkQuality["level"], string> = {
+  excellent: "Excellent connection",
+  good: "Good connection",
+  fair: "Fair connection",
+  poor: "Poor connection",
+};
+
+const BAR_COLORS: Record<NetworkQuality["level"], string> = {
+  excellent: "bg-green-400",
+  good: "bg-green-400",
+  fair: "bg-yellow-400",
+  poor: "bg-red-400",
+};
+
+// Signal bars for one video tile, with the reason for a low score on hover
+export const NetworkQualityIndicator = ({
+  quality,
+  viaServer = false,
+}: {
+  quality?: NetworkQuality;
+  viaServer?: boolean;
+}) => {
+  if (!quality) return null;
+
+  return (
+    <TooltipProvider delayDuration={200}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div
+            className="flex h-6 items-end gap-0.5 rounded bg-black/50 px-1.5 py-1"
+            aria-label={LEVEL_LABELS[quality.level]}
+          >
+            {[1, 2, 3, 4].map((bar) => (
+              <span
+                key={bar}
+                className={`w-1 rounded-sm ${
+                  bar <= quality.bars
+                    ? BAR_COLORS[quality.level]
+                    : "bg-white/30"
+                }`}
+                style={{ height: `${bar * 25}%` }}
+              />
+            ))}
+          </div>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p className="font-medium">{LEVEL_LABELS[quality.level]}</p>
+          {quality.reason && <p>{quality.reason}</p>}
+          <p className="text-muted-foreground">
+            {viaServer ? "Connection to the media server" : "Direct connection"}
+            , score {quality.mos.toFixed(1)} / 5
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
@@ -0,0 +1,303 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "@/contexts/auth-context";
+import { useWebRTC } from "@/contexts/webrtc-context";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertTriangle,
+  Loader2,
+  Mic,
+  MicOff,
+  VideoIcon,
+  VideoOff,
+} from "lucide-react";
+import { isAudioOutputSelectionSupported } from "@/lib/audio-output";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("room");
+
+type PreJoinLobbyProps = {
+  roomName: string;
+  onJoin: (displayName: string) => void;
+  onCancel: () => void;
+};
+
+// Shown before joining a meeting. The preview uses the provider's local
+// stream, so the devices and mute state chosen here are what the call starts
+// with.
+export const PreJoinLobby = ({
+  roomName,
+  onJoin,
+  onCancel,
+}: PreJoinLobbyProps) => {
+  const { user } = useAuth();
+  const {
+    localStream,
+    isAudioEnabled,
+    isVideoEnabled,
+    toggleAudio,
+    toggleVideo,
+    reinitializeMedia,
+    mediaState,
+    setSelectedVideoDevice,
+    setSelectedAudioDevice,
+    setSelectedAudioOutputDevice,
+    webRTCError,
+  } = useWebRTC();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [displayName, setDisplayName] = useState(user?.displayName || "");
+  const [isStartingPreview, setIsStartingPreview] = useState(!localStream);
+  const [canSelectOutput, setCanSelectOutput] = useState(false);
+
+  useEffect(() => {
+    setCanSelectOutput(isAudioOutputSelectionSupported());
+  }, []);
+
+  // Start the preview with the saved devices. Picking another device swaps
+  // the track in place, so the preview is only started once.
+  useEffect(() => {
+    if (localStream) return;
+
+    log.debug("Starting lobby preview with selected devices");
+    setIsStartingPreview(true);
+    reinitializeMedia()
+      .catch((error) => log.error("Error starting lobby preview:", error))
+      .finally(() => setIsStartingPreview(false));
+  }, []);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = mediaState.hasVideo ? localStream : null;
+    }
+  }, [localStream, mediaState.hasVideo]);
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    onJoin(displayName.trim());
+  };
+
+  const showVideo = mediaState.hasVideo && isVideoEnabled;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-2xl">
+        <form onSubmit={handleJoin}>
+          <CardHeader>
+            <CardTitle>Ready to join?</CardTitle>
+            <CardDescription>{roomName}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative aspect-video bg-black rounded-lg overflow-hidden">
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                className={`h-full w-full object-cover ${
+                  !showVideo ? "hidden" : ""
+                }`}
+              />
+
+              {isStartingPreview && !localStream && (
+                <div className="absolute inset-0 flex items-center justify-center bg-gray-800 text-white">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                </div>
+              )}
+
+              {!isStartingPreview &&
+                !mediaState.hasVideo &&
+                !mediaState.hasAudio && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-800 text-white">
+                    <AlertTriangle className="h-12 w-12 mb-2 text-yellow-400" />
+                    <p className="text-center px-4">
+                      {webRTCError || "No camera or microphone detected"}
+                    </p>
+                  </div>
+                )}
+
+              {!showVideo && (mediaState.hasVideo || mediaState.hasAudio) && (
+                <div className="absolute inset-0 flex items-center justify-center bg-gray-800 text-white">
+                  <div className="text-center">
+                    <Avatar className="h-24 w-24 mx-auto">
+                      <AvatarFallback className="text-3xl">
+                        {displayName.charAt(0) || "U"}
+                      </AvatarFallback>
+                    </Avatar>
+                    <p className="text-xs mt-4 text-gray-400">
+                      {mediaState.hasVideo ? "Camera is off" : "Audio only"}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex gap-3">
+                <Button
+                  type="button"
+                  variant={isAudioEnabled ? "secondary" : "destructive"}
+                  size="icon"
+                  onClick={toggleAudio}
+                  className="rounded-full h-12 w-12"
+                  disabled={!mediaState.hasAudio}
+                  title={isAudioEnabled ? "Join muted" : "Unmute"}
+                >
+                  {isAudioEnabled ? (
+                    <Mic className="h-5 w-5" />
+                  ) : (
+                    <MicOff className="h-5 w-5" />
+                  )}
+                </Button>
+                <Button
+                  type="button"
+                  variant={isVideoEnabled ? "secondary" : "destructive"}
+                  size="icon"
+                  onClick={toggleVideo}
+                  className="rounded-full h-12 w-12"
+                  disabled={!mediaState.hasVideo}
+                  title={
+                    isVideoEnabled ? "Join with camera off" : "Turn on camera"
+                  }
+                >
+                  {isVideoEnabled ? (
+                    <VideoIcon className="h-5 w-5" />
+                  ) : (
+                    <VideoOff className="h-5 w-5" />
+                  )}
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="lobby-display-name">Your name</Label>
+              <Input
+                id="lobby-display-name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder="Name shown to others in this meeting"
+                maxLength={50}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="lobby-camera">Camera</Label>
+                <Select
+                  value={mediaState.selectedVideoDevice || ""}
+                  onValueChange={(value) => setSelectedVideoDevice(value)}
+                  disabled={mediaState.videoDevices.length === 0}
+                >
+                  <SelectTrigger id="lobby-camera">
+                    <SelectValue
+                      placeholder={
+                        mediaState.videoDevices.length === 0
+                          ? "No cameras found"
+                          : "Select camera"
+                      }
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {mediaState.videoDevices.map((device) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId}>
+                        {device.label ||
+                          `Camera ${device.deviceId.substring(0, 5)}...`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="lobby-microphone">Microphone</Label>
+                <Select
+                  value={mediaState.selectedAudioDevice || ""}
+                  onValueChange={(value) => setSelectedAudioDevice(value)}
+                  disabled={mediaState.audioDevices.length === 0}
+                >
+                  <SelectTrigger id="lobby-microphone">
+                    <SelectValue
+                      placeholder={
+                        mediaState.audioDevices.length === 0
+                          ? "No microphones found"
+                          : "Select microphone"
+                      }
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {mediaState.audioDevices.map((device) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId}>
+                        {device.label ||
+                          `Microphone ${device.deviceId.substring(0, 5)}...`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {canSelectOutput && mediaState.audioOutputDevices.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="lobby-speaker">Speaker</Label>
+                  <Select
+                    value={mediaState.selectedAudioOutputDevice || ""}
+                    onValueChange={(value) =>
+                      setSelectedAudioOutputDevice(value)
+                    }
+                  >
+                    <SelectTrigger id="lobby-speaker">
+                      <SelectValue placeholder="System default" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {mediaState.audioOutputDevices.map((device) => (
+                        <SelectItem
+                          key={device.deviceId}
+                          value={device.deviceId}
+                        >
+                          {device.label ||
+                            `Speaker ${device.deviceId.substring(0, 5)}...`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </CardContent>
+          <CardFooter className="justify-between gap-2">
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Back to Dashboard
+            </Button>
+            <Button type="submit" disabled={isStartingPreview}>
+              {isStartingPreview ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Starting camera...
+                </>
+              ) : (
+                "Join now"
+              )}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  ChevronLeft,
+  ChevronRight,
+  LayoutGrid,
+  MonitorUp,
+  PanelRight,
+  SquareUser,
+} from "lucide-react";
+
+export type LayoutMode = "gallery" | "speaker" | "sidebar" | "screen-share";
+
+export const LAYOUT_MODES: {
+  mode: LayoutMode;
+  label: string;
+  icon: typeof LayoutGrid;
+}[] = [
+  { mode: "gallery", label: "Gallery", icon: LayoutGrid },
+  { mode: "speaker", label: "Speaker", icon: SquareUser },
+  { mode: "sidebar", label: "Sidebar", icon: PanelRight },
+  { mode: "screen-share", label: "Screen share", icon: MonitorUp },
+];
+
+export const isLayoutMode = (value: unknown): value is LayoutMode =>
+  LAYOUT_MODES.some(({ mode }) => mode === value);
+
+// Most tiles shown on one gallery page
+export const GALLERY_PAGE_SIZE = 9;
+
+export type VideoTile = {
+  id: string;
+  node: React.ReactNode;
+};
+
+// Column classes spelled out so Tailwind keeps them in the build
+const GRID_COLUMNS: Record<number, string> = {
+  1: "md:grid-cols-1",
+  2: "md:grid-cols-2",
+  3: "md:grid-cols-3",
+};
+
+const gridColumns = (count: number) => (count <= 1 ? 1 : count <= 4 ? 2 : 3);
+
+type VideoLayoutProps = {
+  mode: LayoutMode;
+  tiles: VideoTile[];
+  // Tile shown large in every layout but the gallery
+  focusId: string | null;
+};
+
+// Arranges the call's video tiles. The tiles are rendered by the room page and
+// only sized and placed here.
+export const VideoLayout = ({ mode, tiles, focusId }: VideoLayoutProps) => {
+  const [page, setPage] = useState(0);
+  const pageCount = Math.max(1, Math.ceil(tiles.length / GALLERY_PAGE_SIZE));
+
+  // Stay on a page that exists when people leave
+  useEffect(() => {
+    if (page >= pageCount) {
+      setPage(pageCount - 1);
+    }
+  }, [page, pageCount]);
+
+  const focusTile = tiles.find((tile) => tile.id === focusId);
+
+  if (mode === "gallery" || !focusTile) {
+    const currentPage = Math.min(page, pageCount - 1);
+    const pageTiles = tiles.slice(
+      currentPage * GALLERY_PAGE_SIZE,
+      (currentPage + 1) * GALLERY_PAGE_SIZE
+    );
+
+    return (
+      <div className="flex h-full flex-col gap-4">
+        <div
+          className={`grid flex-1 content-start gap-4 grid-cols-1 ${
+            GRID_COLUMNS[gridColumns(pageTiles.length)]
+          }`}
+        >
+          {pageTiles.map((tile) => (
+            <div key={tile.id} className="aspect-video">
+              {tile.node}
+            </div>
+          ))}
+        </div>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-center gap-2 text-sm">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              title="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-muted-foreground">
+              Page {currentPage + 1} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage === pageCount - 1}
+              title="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const otherTiles = tiles.filter((tile) => tile !== focusTile);
+
+  // Large tile with everyone else in a filmstrip underneath
+  if (mode === "speaker") {
+    return (
+      <div className="flex h-full flex-col gap-4">
+        <div className="min-h-0 flex-1">{focusTile.node}</div>
+        {otherTiles.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {otherTiles.map((tile) => (
+              <div key={tile.id} className="aspect-video h-28 flex-shrink-0">
+                {tile.node}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Large tile with everyone else in a column beside it. Screen shares get a
+  // narrower column, leaving the shared content as much room as possible.
+  return (
+    <div className="flex h-full gap-4">
+      <div className="min-w-0 flex-1">{focusTile.node}</div>
+      {otherTiles.length > 0 && (
+        <div
+          className={`flex flex-shrink-0 flex-col gap-2 overflow-y-auto ${
+            mode === "screen-share" ? "w-40" : "w-64"
+          }`}
+        >
+          {otherTiles.map((tile) => (
+            <div key={tile.id} className="aspect-video w-full flex-shrink-0">
+              {tile.node}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
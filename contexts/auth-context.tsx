@@ -18,6 +18,9 @@ import {
   setTokenCookie,
   removeTokenCookie,
 } from "@/lib/cookies";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("auth");
 
 type AuthContextType = {
   user: User | null;
@@ -41,23 +44,23 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   useFirebaseTokenCookie();
 
   useEffect(() => {
-    console.log("Auth provider initializing");
+    log.debug("Auth provider initializing");
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
-      console.log("Auth state changed:", user ? "User logged in" : "No user");
+      log.debug("Auth state changed:", user ? "User logged in" : "No user");
 
       if (user) {
         // Immediately set the token cookie when user is available
         try {
           const token = await getIdToken(user, true); // Force refresh the token
           setTokenCookie(token);
-          console.log("Token set in cookie");
+          log.debug("Token set in cookie");
         } catch (error) {
-          console.error("Error getting token:", error);
+          log.error("Error getting token:", error);
         }
       } else {
         // Clear the token cookie when no user
         removeTokenCookie();
-        console.log("Token removed from cookie");
+        log.debug("Token removed from cookie");
       }
 
       setUser(user);
@@ -74,15 +77,15 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     displayName: string
   ) => {
     try {
-      console.log("Starting signup process...");
+      log.debug("Starting signup process...");
       const userCredential = await createUserWithEmailAndPassword(
         auth,
         email,
         password
       );
-      console.log("User created successfully, updating profile...");
+      log.debug("User created successfully, updating profile...");
       await updateProfile(userCredential.user, { displayName });
-      console.log("Profile updated successfully");
+      log.debug("Profile updated successfully");
 
       // Set token immediately after signup
       const token = await getIdToken(userCredential.user, true);
@@ -90,7 +93,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
       setUser(userCredential.user);
     } catch (error) {
-      console.error("Error during signup:", error);
+      log.error("Error during signup:", error);
       throw error; // Re-throw to handle in the component
     }
   };
@@ -98,19 +101,19 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   // Update the signIn function to better handle errors
   const signIn = async (email: string, password: string) => {
     try {
-      console.log("Starting signin process...");
+      log.debug("Starting signin process...");
       const userCredential = await signInWithEmailAndPassword(
         auth,
         email,
         password
       );
-      console.log("Signed in successfully");
+      log.debug("Signed in successfully");
 
       // Set token immediately after signin
       const token = await getIdToken(userCredential.user, true);
       setTokenCookie(token);
     } catch (error) {
-      console.error("Error during signin:", error);
+      log.error("Error during signin:", error);
       throw error; // Re-throw to handle in the component
     }
   };
@@ -121,7 +124,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       removeTokenCookie();
       setUser(null);
     } catch (error) {
-      console.error("Error during signout:", error);
+      log.error("Error during signout:", error);
       throw error;
     }
   };
@@ -6,14 +6,16 @@ import { createContext, useContext, useState, useEffect, useRef } from "react";
 import { useAuth } from "./auth-context";
 import { ref, onValue, push } from "firebase/database";
 import { rtdb } from "@/lib/firebase";
+import {
+  describeSchemaError,
+  messageSchema,
+  type MessageData,
+} from "@/lib/schemas";
+import { createLogger } from "@/lib/logger";
 
-type Message = {
-  id: string;
-  userId: string;
-  userName: string;
-  text: string;
-  timestamp: number;
-};
+const log = createLogger("chat");
+
+type Message = MessageData & { id: string };
 
 type ChatContextType = {
   messages: Message[];
@@ -42,43 +44,48 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
       return;
     }
 
-    console.log(`Setting up messages listener for room: ${roomId}`);
+    log.debug(`Setting up messages listener for room: ${roomId}`);
     const messagesRef = ref(rtdb, `rooms/${roomId}/messages`);
     const unsubscribe = onValue(
       messagesRef,
       (snapshot) => {
         if (snapshot.exists()) {
           const messagesData = snapshot.val();
-          const messagesList = Object.entries(messagesData).map(
-            ([id, data]: [string, any]) => ({
-              id,
-              userId: data.userId,
-              userName: data.userName,
-              text: data.text,
-              timestamp: data.timestamp,
-            })
+          // Drop malformed messages instead of failing to render the chat
+          const messagesList = Object.entries(messagesData).flatMap(
+            ([id, data]) => {
+              const result = messageSchema.safeParse(data);
+              if (!result.success) {
+                log.error(
+                  `Ignoring malformed message ${id}:`,
+                  describeSchemaError(result.error)
+                );
+                return [];
+              }
+              return [{ id, ...result.data }];
+            }
           );
 
           // Sort messages by timestamp
           messagesList.sort((a, b) => a.timestamp - b.timestamp);
-          console.log(
+          log.debug(
             `Fetched ${messagesList.length} messages for room ${roomId}`
           );
           setMessages(messagesList);
         } else {
-          console.log(`No messages found for room ${roomId}`);
+          log.debug(`No messages found for room ${roomId}`);
           setMessages([]);
         }
       },
       (error) => {
-        console.error("Error fetching messages:", error);
+        log.error("Error fetching messages:", error);
       }
     );
 
     messagesListenerRef.current = unsubscribe;
     return () => {
       if (messagesListenerRef.current) {
-        console.log("Cleaning up messages listener");
+        log.debug("Cleaning up messages listener");
         messagesListenerRef.current();
         messagesListenerRef.current = null;
       }
@@ -89,17 +96,20 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
     if (!user || !roomId || !text.trim()) return;
 
     try {
-      console.log(`Sending message to room ${roomId}`);
+      log.debug(`Sending message to room ${roomId}`);
       const messagesRef = ref(rtdb, `rooms/${roomId}/messages`);
-      await push(messagesRef, {
-        userId: user.uid,
-        userName: user.displayName || "Anonymous",
-        text,
-        timestamp: Date.now(),
-      });
-      console.log("Message sent successfully");
+      await push(
+        messagesRef,
+        messageSchema.parse({
+          userId: user.uid,
+          userName: user.displayName || "Anonymous",
+          text,
+          timestamp: Date.now(),
+        })
+      );
+      log.debug("Message sent successfully");
     } catch (error) {
-      console.error("Error sending message:", error);
+      log.error("Error sending message:", error);
     }
   };
 
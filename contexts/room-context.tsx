@@ -14,30 +14,96 @@ import {
   onDisconnect,
 } from "firebase/database";
 import { rtdb } from "@/lib/firebase";
-
-export type Room = {
+import { createSessionId } from "@/lib/session";
+import {
+  describeSchemaError,
+  participantSchema,
+  roomSchema,
+  spotlightSchema,
+  type RoomData,
+  type RoomTopology,
+} from "@/lib/schemas";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("room");
+
+export type Room = Omit<RoomData, "spotlight"> & {
   id: string;
-  name: string;
-  createdBy: string;
-  createdAt: number;
-  participants: Record<
-    string,
-    {
-      displayName: string;
-      joined: number;
-    }
-  >;
+  // Session the host has spotlighted for everyone, if any
+  spotlight?: string;
+};
+
+// The spotlighted session, if it was the room creator who set it
+export const parseSpotlight = (data: unknown, createdBy: string) => {
+  const result = spotlightSchema.safeParse(data);
+  return result.success && result.data.by === createdBy
+    ? result.data.sessionId
+    : undefined;
+};
+
+// Leave out participants that don't match the schema, so one bad write can't
+// make the whole room unreadable
+const dropMalformedParticipants = (id: string, data: unknown) => {
+  if (!data || typeof data !== "object") return data;
+  const { participants } = data as { participants?: unknown };
+  if (!participants || typeof participants !== "object") return data;
+
+  return {
+    ...data,
+    participants: Object.fromEntries(
+      Object.entries(participants).filter(([sessionId, value]) => {
+        const result = participantSchema.safeParse(value);
+        if (!result.success) {
+          log.error(
+            `Ignoring malformed participant ${sessionId} in room ${id}:`,
+            describeSchemaError(result.error)
+          );
+        }
+        return result.success;
+      })
+    ),
+  };
+};
+
+// Validate raw room data read from RTDB. Returns the error message instead of
+// throwing so listeners can report it.
+export const parseRoom = (
+  id: string,
+  data: unknown
+): { room: Room; error: null } | { room: null; error: string } => {
+  const result = roomSchema.safeParse(dropMalformedParticipants(id, data));
+  if (!result.success) {
+    const error = `Room ${id} has malformed data (${describeSchemaError(
+      result.error
+    )})`;
+    log.error(error);
+    return { room: null, error };
+  }
+  const spotlight = parseSpotlight(
+    result.data.spotlight,
+    result.data.createdBy
+  );
+  return { room: { id, ...result.data, spotlight }, error: null };
 };
 
 type RoomContextType = {
   rooms: Room[];
-  createRoom: (name: string) => Promise<string>;
-  joinRoom: (roomId: string) => Promise<void>;
+  createRoom: (name: string, topology?: RoomTopology) => Promise<string>;
+  // displayName overrides the account name for this meeting only
+  joinRoom: (roomId: string, displayName?: string) => Promise<string | null>;
   leaveRoom: () => void;
   currentRoom: Room | null;
+  sessionId: string | null;
+  otherSessionIds: string[];
+  moveSessionHere: () => Promise<void>;
+  sessionMovedAway: boolean;
   isJoiningRoom: boolean;
   joinError: string | null;
   getRoom: (roomId: string) => Promise<Room | null>;
+  // Whether the current user created the current room
+  isHost: boolean;
+  // Focus every participant's view on a session; null clears it. Host only.
+  setSpotlight: (sessionId: string | null) => Promise<void>;
 };
 
 const RoomContext = createContext<RoomContextType | null>(null);
@@ -48,10 +114,13 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
   const [currentRoom, setCurrentRoom] = useState<Room | null>(null);
   const [isJoiningRoom, setIsJoiningRoom] = useState(false);
   const [joinError, setJoinError] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionMovedAway, setSessionMovedAway] = useState(false);
   const joinInProgressRef = useRef(false);
   const joinAttemptsRef = useRef(0);
   const roomListenerRef = useRef<(() => void) | null>(null);
   const currentRoomIdRef = useRef<string | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
 
   // Set up room list listener
   useEffect(() => {
@@ -60,40 +129,36 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
       return;
     }
 
-    console.log("Setting up rooms list listener");
+    log.debug("Setting up rooms list listener");
     const roomsRef = ref(rtdb, "rooms");
     const unsubscribe = onValue(
       roomsRef,
       (snapshot) => {
         if (snapshot.exists()) {
           const roomsData = snapshot.val();
-          const roomsList = Object.entries(roomsData).map(
-            ([id, data]: [string, any]) => ({
-              id,
-              name: data.name,
-              createdBy: data.createdBy,
-              createdAt: data.createdAt,
-              participants: data.participants || {},
-            })
-          );
+          // Skip rooms with malformed data rather than breaking the list
+          const roomsList = Object.entries(roomsData).flatMap(([id, data]) => {
+            const { room } = parseRoom(id, data);
+            return room ? [room] : [];
+          });
 
-          console.log(
+          log.debug(
             `Fetched ${roomsList.length} rooms from Firebase:`,
             roomsList
           );
           setRooms(roomsList);
         } else {
-          console.log("No rooms found in Firebase");
+          log.debug("No rooms found in Firebase");
           setRooms([]);
         }
       },
       (error) => {
-        console.error("Error fetching rooms:", error);
+        log.error("Error fetching rooms:", error);
       }
     );
 
     return () => {
-      console.log("Cleaning up rooms list listener");
+      log.debug("Cleaning up rooms list listener");
       unsubscribe();
     };
   }, [user]);
@@ -110,7 +175,7 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
       return;
     }
 
-    console.log(
+    log.debug(
       `Setting up listener for current room: ${currentRoomIdRef.current}`
     );
     const roomRef = ref(rtdb, `rooms/${currentRoomIdRef.current}`);
@@ -118,25 +183,37 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
       roomRef,
       (snapshot) => {
         if (snapshot.exists()) {
-          const roomData = snapshot.val();
-          const room: Room = {
-            id: currentRoomIdRef.current!,
-            name: roomData.name,
-            createdBy: roomData.createdBy,
-            createdAt: roomData.createdAt,
-            participants: roomData.participants || {},
-          };
-          console.log(`Current room updated:`, room);
+          const { room, error } = parseRoom(
+            currentRoomIdRef.current!,
+            snapshot.val()
+          );
+          if (!room) {
+            setJoinError(error);
+            return;
+          }
+          log.debug(`Current room updated:`, room);
           setCurrentRoom(room);
+
+          // Our session was removed while another session of the same user
+          // is still here, so the call was moved to that device
+          const ownSessionId = sessionIdRef.current;
+          if (
+            ownSessionId &&
+            !room.participants[ownSessionId] &&
+            Object.values(room.participants).some((p) => p.uid === user.uid)
+          ) {
+            log.debug(`Session ${ownSessionId} was moved to another device`);
+            setSessionMovedAway(true);
+          }
         } else {
-          console.log(
+          log.debug(
             `Current room ${currentRoomIdRef.current} no longer exists`
           );
           setCurrentRoom(null);
         }
       },
       (error) => {
-        console.error("Error fetching current room:", error);
+        log.error("Error fetching current room:", error);
         setCurrentRoom(null);
       }
     );
@@ -144,49 +221,50 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
     roomListenerRef.current = unsubscribe;
     return () => {
       if (roomListenerRef.current) {
-        console.log("Cleaning up current room listener");
+        log.debug("Cleaning up current room listener");
         roomListenerRef.current();
         roomListenerRef.current = null;
       }
     };
   }, [user, currentRoomIdRef.current]);
 
+  // Sessions of the current user in this room other than this one
+  const otherSessionIds = Object.entries(currentRoom?.participants || {})
+    .filter(
+      ([id, participant]) => id !== sessionId && participant.uid === user?.uid
+    )
+    .map(([id]) => id);
+
   // Get a room by ID
   const getRoom = async (roomId: string): Promise<Room | null> => {
     if (!roomId) {
-      console.error("No room ID provided");
+      log.error("No room ID provided");
       return null;
     }
 
     try {
-      console.log(`Getting room data for: ${roomId}`);
+      log.debug(`Getting room data for: ${roomId}`);
       const roomRef = ref(rtdb, `rooms/${roomId}`);
       const snapshot = await get(roomRef);
 
       if (snapshot.exists()) {
         const roomData = snapshot.val();
-        console.log(`Room data fetched for ${roomId}:`, roomData);
-        return {
-          id: roomId,
-          name: roomData.name,
-          createdBy: roomData.createdBy,
-          createdAt: roomData.createdAt,
-          participants: roomData.participants || {},
-        };
+        log.debug(`Room data fetched for ${roomId}:`, roomData);
+        return parseRoom(roomId, roomData).room;
       } else {
-        console.log(`Room ${roomId} not found in database`);
+        log.debug(`Room ${roomId} not found in database`);
         return null;
       }
     } catch (error) {
-      console.error(`Error getting room ${roomId}:`, error);
+      log.error(`Error getting room ${roomId}:`, error);
       return null;
     }
   };
 
-  const createRoom = async (name: string) => {
+  const createRoom = async (name: string, topology: RoomTopology = "mesh") => {
     if (!user) throw new Error("User not authenticated");
 
-    console.log(`Creating new room: ${name}`);
+    log.debug(`Creating new ${topology} room: ${name}`);
 
     try {
       // Create a new room reference with a unique key
@@ -196,25 +274,22 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
 
       if (!roomId) throw new Error("Failed to generate room ID");
 
-      console.log(`Generated room ID: ${roomId}`);
+      log.debug(`Generated room ID: ${roomId}`);
 
       // Create the room data
       const timestamp = Date.now();
-      const roomData = {
+      const roomData = roomSchema.parse({
         name,
         createdBy: user.uid,
         createdAt: timestamp,
-        participants: {
-          [user.uid]: {
-            displayName: user.displayName || "Anonymous",
-            joined: timestamp,
-          },
-        },
-      };
+        topology,
+        // The creator is added with a session of their own when they join
+        participants: {},
+      });
 
       // Set the room data in Firebase
       await set(newRoomRef, roomData);
-      console.log(`Room data written to Firebase:`, roomData);
+      log.debug(`Room data written to Firebase:`, roomData);
 
       // Verify the room was created by reading it back
       const roomRef = ref(rtdb, `rooms/${roomId}`);
@@ -224,40 +299,42 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
         throw new Error("Room was not saved to database");
       }
 
-      console.log(`Room verified in database:`, snapshot.val());
+      log.debug(`Room verified in database:`, snapshot.val());
 
       // Set as current room
       currentRoomIdRef.current = roomId;
       setCurrentRoom({
         id: roomId,
         ...roomData,
+        // Nobody can have been spotlighted in a room that was just created
+        spotlight: undefined,
       });
 
       return roomId;
     } catch (error) {
-      console.error("Error creating room:", error);
+      log.error("Error creating room:", error);
       throw error;
     }
   };
 
-  const joinRoom = async (roomId: string) => {
+  const joinRoom = async (roomId: string, displayName?: string) => {
     if (!user) {
       const error = "User not authenticated";
-      console.error(error);
+      log.error(error);
       setJoinError(error);
       throw new Error(error);
     }
 
     // Prevent multiple join attempts
     if (joinInProgressRef.current) {
-      console.log("Join already in progress, ignoring duplicate request");
-      return;
+      log.debug("Join already in progress, ignoring duplicate request");
+      return sessionIdRef.current;
     }
 
     // If we're already in this room, don't try to join again
-    if (currentRoom && currentRoom.id === roomId) {
-      console.log("Already in this room, no need to join again");
-      return;
+    if (currentRoom && currentRoom.id === roomId && sessionIdRef.current) {
+      log.debug("Already in this room, no need to join again");
+      return sessionIdRef.current;
     }
 
     // Reset join error
@@ -267,7 +344,7 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
     joinAttemptsRef.current += 1;
     if (joinAttemptsRef.current > 3) {
       const error = "Too many join attempts, aborting to prevent infinite loop";
-      console.error(error);
+      log.error(error);
       setJoinError(error);
       joinAttemptsRef.current = 0;
       throw new Error(error);
@@ -276,7 +353,7 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
     try {
       joinInProgressRef.current = true;
       setIsJoiningRoom(true);
-      console.log(`Attempting to join room: ${roomId}`);
+      log.debug(`Attempting to join room: ${roomId}`);
 
       // Get the room data
       const roomRef = ref(rtdb, `rooms/${roomId}`);
@@ -284,30 +361,47 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
 
       if (!snapshot.exists()) {
         const error = `Room ${roomId} not found in database`;
-        console.error(error);
+        log.error(error);
         setJoinError(error);
         throw new Error(error);
       }
 
-      const roomData = snapshot.val();
-      console.log(`Room data fetched:`, roomData);
+      const { room: roomData, error: roomError } = parseRoom(
+        roomId,
+        snapshot.val()
+      );
+      if (!roomData) {
+        setJoinError(roomError);
+        throw new Error(roomError);
+      }
+      log.debug(`Room data fetched:`, roomData);
 
       // Set the current room ID reference first
       currentRoomIdRef.current = roomId;
 
-      // Add user to participants
-      console.log(`Adding user ${user.uid} to room participants`);
+      // Every join gets its own session, so other tabs and devices of the
+      // same user keep theirs
+      const newSessionId = createSessionId();
+      sessionIdRef.current = newSessionId;
+      setSessionId(newSessionId);
+      setSessionMovedAway(false);
+
+      // Add this session to participants
+      log.debug(
+        `Adding user ${user.uid} to room participants as session ${newSessionId}`
+      );
       const participantRef = ref(
         rtdb,
-        `rooms/${roomId}/participants/${user.uid}`
+        `rooms/${roomId}/participants/${newSessionId}`
       );
-      const participantData = {
-        displayName: user.displayName || "Anonymous",
+      const participantData = participantSchema.parse({
+        uid: user.uid,
+        displayName: displayName || user.displayName || "Anonymous",
         joined: Date.now(),
-      };
+      });
 
       await set(participantRef, participantData);
-      console.log(`Participant data written:`, participantData);
+      log.debug(`Participant data written:`, participantData);
 
       // Set up disconnect handler to remove participant when they leave
       onDisconnect(participantRef).remove();
@@ -318,18 +412,21 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
         name: roomData.name,
         createdBy: roomData.createdBy,
         createdAt: roomData.createdAt,
+        topology: roomData.topology,
+        spotlight: roomData.spotlight,
         participants: {
           ...roomData.participants,
-          [user.uid]: participantData,
+          [newSessionId]: participantData,
         },
       };
 
       setCurrentRoom(room);
 
-      console.log(`Successfully joined room: ${roomId}`);
+      log.info(`Successfully joined room: ${roomId}`);
       joinAttemptsRef.current = 0;
+      return newSessionId;
     } catch (error: any) {
-      console.error("Error joining room:", error);
+      log.error("Error joining room:", error);
       setJoinError(error.message || "Failed to join room");
       throw error;
     } finally {
@@ -341,17 +438,65 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  // End this user's sessions on other tabs and devices; they notice their
+  // participant node is gone and leave the call
+  const moveSessionHere = async () => {
+    if (!currentRoomIdRef.current || otherSessionIds.length === 0) return;
+
+    log.debug(`Moving call here from sessions:`, otherSessionIds);
+    try {
+      await Promise.all(
+        otherSessionIds.map((id) =>
+          remove(
+            ref(rtdb, `rooms/${currentRoomIdRef.current}/participants/${id}`)
+          )
+        )
+      );
+    } catch (error) {
+      log.error("Error moving call to this device:", error);
+      throw error;
+    }
+  };
+
+  const isHost = !!user && currentRoom?.createdBy === user.uid;
+
+  const setSpotlight = async (spotlightSessionId: string | null) => {
+    if (!currentRoomIdRef.current) return;
+    if (!user || !isHost) {
+      throw new Error("Only the host can spotlight participants");
+    }
+
+    log.debug(`Setting spotlight to: ${spotlightSessionId}`);
+    try {
+      // Writing null removes the key, which clears the spotlight
+      await set(
+        ref(rtdb, `rooms/${currentRoomIdRef.current}/spotlight`),
+        spotlightSessionId
+          ? spotlightSchema.parse({
+              sessionId: spotlightSessionId,
+              by: user.uid,
+            })
+          : null
+      );
+    } catch (error) {
+      log.error("Error setting spotlight:", error);
+      throw error;
+    }
+  };
+
   const leaveRoom = () => {
     if (!user || !currentRoomIdRef.current) return;
 
-    console.log(`Leaving room: ${currentRoomIdRef.current}`);
-    const participantRef = ref(
-      rtdb,
-      `rooms/${currentRoomIdRef.current}/participants/${user.uid}`
-    );
-    remove(participantRef)
-      .then(() => console.log("Removed participant from room"))
-      .catch((err) => console.error("Error removing participant:", err));
+    log.debug(`Leaving room: ${currentRoomIdRef.current}`);
+    if (sessionIdRef.current) {
+      const participantRef = ref(
+        rtdb,
+        `rooms/${currentRoomIdRef.current}/participants/${sessionIdRef.current}`
+      );
+      remove(participantRef)
+        .then(() => log.debug("Removed participant from room"))
+        .catch((err) => log.error("Error removing participant:", err));
+    }
 
     // Clean up the current room listener
     if (roomListenerRef.current) {
@@ -360,6 +505,8 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
     }
 
     currentRoomIdRef.current = null;
+    sessionIdRef.current = null;
+    setSessionId(null);
     setCurrentRoom(null);
     joinAttemptsRef.current = 0;
   };
@@ -372,9 +519,15 @@ export const RoomProvider = ({ children }: { children: React.ReactNode }) => {
         joinRoom,
         leaveRoom,
         currentRoom,
+        sessionId,
+        otherSessionIds,
+        moveSessionHere,
+        sessionMovedAway,
         isJoiningRoom,
         joinError,
         getRoom,
+        isHost,
+        setSpotlight,
       }}
     >
       {children}
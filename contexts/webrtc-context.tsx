@@ -3,6 +3,7 @@
 import type React from "react";
 
 import { createContext, useContext, useEffect, useState, useRef } from "react";
+import type { z } from "zod";
 import { useAuth } from "./auth-context";
 import {
   ref,
@@ -10,8 +11,8 @@ import {
   set,
   remove,
   onDisconnect,
-  push,
   get,
+  runTransaction,
 } from "firebase/database";
 import { rtdb, storage } from "@/lib/firebase";
 import {
@@ -19,15 +20,108 @@ import {
   uploadBytes,
   getDownloadURL,
 } from "firebase/storage";
-import { Room } from "./room-context";
-
+import { Room, parseRoom, parseSpotlight } from "./room-context";
+import {
+  answerSchema,
+  candidateSchema,
+  describeSchemaError,
+  offerSchema,
+  participantSchema,
+  roomTopologySchema,
+  type Participant,
+  type ParticipantMedia,
+  type RoomTopology,
+} from "@/lib/schemas";
+import {
+  END_OF_CANDIDATES,
+  type IceCandidateMessage,
+  type SessionDescriptionMessage,
+  type SignalingMetadata,
+  type SignalingTransport,
+} from "@/lib/signaling/types";
+import {
+  createSignalingTransport,
+  type SignalingBackend,
+} from "@/lib/signaling";
+import {
+  baseRtcConfiguration,
+  getIceConfiguration,
+  getIceServersRefreshDelay,
+} from "@/lib/ice-servers";
+import { SfuClient } from "@/lib/sfu-client";
+import { getMediaConstraints } from "@/lib/media-constraints";
+import { toast } from "@/hooks/use-toast";
+import {
+  summarizeStats,
+  type CallStatsSample,
+  type PeerStatsReport,
+} from "@/lib/call-stats";
+import {
+  downloadDiagnosticsFile,
+  getDiagnosticEvents,
+  recordDiagnosticEvent,
+  serializeStatsReport,
+  withSignalingDiagnostics,
+} from "@/lib/diagnostics";
+import {
+  QUALITY_INTERVAL,
+  assessNetworkQuality,
+  isUplinkPoor,
+  type NetworkQuality,
+} from "@/lib/network-quality";
+import { isVideoLayer, type VideoLayer } from "@/lib/simulcast";
+import {
+  ADAPTATION_INTERVAL,
+  DATA_SAVER_STEP,
+  adaptQuality,
+  applyQualityStep,
+  initialAdaptationState,
+  readSenderStats,
+  type AdaptationState,
+} from "@/lib/bandwidth";
+import { AUDIO_LEVEL_INTERVAL, AudioLevelMonitor } from "@/lib/audio-levels";
+import {
+  AUDIO_PROCESSING_STORAGE_KEY,
+  DEFAULT_AUDIO_PROCESSING,
+  NoiseGate,
+  needsRecapture,
+  parseAudioProcessingSettings,
+  type AudioProcessingSettings,
+} from "@/lib/audio-pipeline";
+import { createLogger, logBuffer } from "@/lib/logger";
+
+const log = createLogger("webrtc");
+
+// Peers are remote sessions; one user may have several (tabs or devices)
 type Peer = {
   id: string;
+  uid: string;
   displayName: string;
   stream?: MediaStream;
   connection?: RTCPeerConnection;
+  // Published by the peer; missing until it has been received
+  media?: ParticipantMedia;
+};
+
+// Per-peer "perfect negotiation" state. Exactly one side of every connection
+// is polite: it rolls back its own offer when offers collide, while the
+// impolite side ignores the incoming offer.
+type NegotiationState = {
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
 };
 
+type JoinOptions = {
+  // Name shown to others in this meeting, chosen in the pre-join lobby
+  displayName?: string;
+  signalingBackend?: SignalingBackend;
+};
+
+// Messages exchanged over the per-peer "control" data channel in mesh rooms
+type ControlMessage = { kind: "layer"; layer: VideoLayer };
+
 type WebRTCContextType = {
   localStream: MediaStream | null;
   peers: Peer[];
@@ -39,7 +133,12 @@ type WebRTCContextType = {
   toggleVideo: () => void;
   toggleScreenShare: () => Promise<void>;
   toggleRecording: () => Promise<void>;
-  joinRoom: (roomId: string, currentRoom: Room | null) => Promise<void>;
+  joinRoom: (
+    roomId: string,
+    currentRoom: Room | null,
+    sessionId: string,
+    options?: JoinOptions
+  ) => Promise<void>;
   leaveRoom: () => void;
   currentRoomId: string | null;
   // currentRoom: Room | null;
@@ -53,40 +152,82 @@ type WebRTCContextType = {
     hasAudio: boolean;
     videoDevices: MediaDeviceInfo[];
     audioDevices: MediaDeviceInfo[];
+    audioOutputDevices: MediaDeviceInfo[];
     selectedVideoDevice: string | null;
     selectedAudioDevice: string | null;
+    // null plays through the system default output
+    selectedAudioOutputDevice: string | null;
   };
   setSelectedVideoDevice: (deviceId: string) => void;
   setSelectedAudioDevice: (deviceId: string) => void;
+  setSelectedAudioOutputDevice: (deviceId: string) => void;
+  audioProcessing: AudioProcessingSettings;
+  setAudioProcessing: (settings: AudioProcessingSettings) => Promise<void>;
   reconnectPeers: (roomId: string) => Promise<void>;
+  requestVideoLayer: (peerId: string, layer: VideoLayer) => void;
+  isDataSaverEnabled: boolean;
+  setDataSaverEnabled: (enabled: boolean) => void;
+  getPeerStats: () => Promise<PeerStatsReport[]>;
+  // Keyed by peer ID, or "sfu" for everyone when media goes through the SFU
+  networkQuality: Record<string, NetworkQuality>;
+  isLocalUplinkPoor: boolean;
+  downloadDiagnostics: () => Promise<void>;
+  // Peer IDs of everyone speaking right now, with LOCAL_PEER_ID for us
+  speakingPeerIds: string[];
+  // The remote peer who has been talking most recently
+  activeSpeakerId: string | null;
   connectionStatus: "connecting" | "connected" | "disconnected" | "failed";
 };
 
 const WebRTCContext = createContext<WebRTCContextType | null>(null);
 
-// Enhanced ICE server configuration with more STUN/TURN servers for better connectivity
-const configuration: RTCConfiguration = {
-  iceServers: [
-    {
-      urls: ["stun:stun1.l.google.com:19302", "stun:stun2.l.google.com:19302"],
-    },
-    {
-      urls: "turn:openrelay.metered.ca:80",
-      username: "openrelayproject",
-      credential: "openrelayproject",
-    },
-    {
-      urls: "turn:openrelay.metered.ca:443",
-      username: "openrelayproject",
-      credential: "openrelayproject",
-    },
-  ],
-  iceCandidatePoolSize: 10,
-  bundlePolicy: "balanced",
-  rtcpMuxPolicy: "require",
-  iceTransportPolicy: "all",
+// Stands in for our own session in speakingPeerIds
+export const LOCAL_PEER_ID = "local";
+
+const DATA_SAVER_STORAGE_KEY = "webrtc:dataSaver";
+// The camera and microphone last picked in this browser
+const VIDEO_DEVICE_STORAGE_KEY = "webrtc:videoDevice";
+const AUDIO_DEVICE_STORAGE_KEY = "webrtc:audioDevice";
+
+const readStoredDevice = (storageKey: string) => {
+  try {
+    return localStorage.getItem(storageKey);
+  } catch (err) {
+    log.error("Error reading device preference:", err);
+    return null;
+  }
+};
+
+// Keep the current choice while that device is listed, otherwise use the one
+// saved for this browser, otherwise the first device
+const pickDevice = (
+  devices: MediaDeviceInfo[],
+  current: string | null,
+  storageKey: string
+) => {
+  const isListed = (deviceId: string | null) =>
+    deviceId !== null && devices.some((device) => device.deviceId === deviceId);
+  if (isListed(current)) return current;
+  const saved = readStoredDevice(storageKey);
+  if (isListed(saved)) return saved;
+  return devices[0]?.deviceId ?? null;
 };
 
+// Most videos drawn into a recording; everyone's audio is still recorded
+const MAX_RECORDING_TILES = 9;
+
+const isSameMedia = (a: ParticipantMedia, b?: ParticipantMedia) =>
+  !!b && a.audio === b.audio && a.video === b.video && a.screen === b.screen;
+
+// ICE credentials of a description; they change when ICE restarts
+const iceUfrag = (sdp?: string) => sdp?.match(/^a=ice-ufrag:(.*)$/m)?.[1];
+
+// Identifies a candidate so it is never applied twice to the same connection
+const candidateKey = (candidate: IceCandidateMessage) =>
+  `${candidate.sdpMid ?? ""}|${candidate.sdpMLineIndex ?? ""}|${
+    candidate.candidate ?? ""
+  }|${candidate.usernameFragment ?? ""}`;
+
 export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
   const { user } = useAuth();
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
@@ -97,41 +238,103 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
   const [recordingURL, setRecordingURL] = useState<string | null>(null);
-  const [webRTCError, setWebRTCError] = useState<string | null>(null);
+  const [webRTCError, setWebRTCErrorState] = useState<string | null>(null);
   const [isScreenShareSupported, setIsScreenShareSupported] = useState(true);
   const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
   const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
-  const [selectedVideoDevice, setSelectedVideoDevice] = useState<string | null>(
-    null
-  );
-  const [selectedAudioDevice, setSelectedAudioDevice] = useState<string | null>(
-    null
-  );
+  const [audioOutputDevices, setAudioOutputDevices] = useState<
+    MediaDeviceInfo[]
+  >([]);
+  const [selectedVideoDevice, setSelectedVideoDeviceState] = useState<
+    string | null
+  >(null);
+  const [selectedAudioDevice, setSelectedAudioDeviceState] = useState<
+    string | null
+  >(null);
+  const [selectedAudioOutputDevice, setSelectedAudioOutputDevice] = useState<
+    string | null
+  >(null);
   const [hasVideo, setHasVideo] = useState(false);
   const [hasAudio, setHasAudio] = useState(false);
+  const [isDataSaverEnabled, setIsDataSaverEnabled] = useState(false);
+  const [audioProcessing, setAudioProcessingState] =
+    useState<AudioProcessingSettings>(DEFAULT_AUDIO_PROCESSING);
+  const [networkQuality, setNetworkQuality] = useState<
+    Record<string, NetworkQuality>
+  >({});
+  const [isLocalUplinkPoor, setIsLocalUplinkPoor] = useState(false);
+  const [speakingPeerIds, setSpeakingPeerIds] = useState<string[]>([]);
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<
     "connecting" | "connected" | "disconnected" | "failed"
   >("disconnected");
 
   const screenShareStream = useRef<MediaStream | null>(null);
   const originalStream = useRef<MediaStream | null>(null);
+  // Read while capturing, so a change applies before the next render
+  const audioProcessingRef = useRef(DEFAULT_AUDIO_PROCESSING);
+  // Gates the microphone while the noise gate is on. Its track is the one in
+  // localStream and every sender; the microphone track stays inside the gate.
+  const noiseGateRef = useRef<NoiseGate | null>(null);
   const mediaRecorder = useRef<MediaRecorder | null>(null);
   const recordedChunks = useRef<Blob[]>([]);
   const peerConnections = useRef<Record<string, RTCPeerConnection>>({});
+  const negotiationRef = useRef<Record<string, NegotiationState>>({});
+  const pendingCandidatesRef = useRef<Record<string, IceCandidateMessage[]>>(
+    {}
+  );
+  const appliedCandidatesRef = useRef<Record<string, Set<string>>>({});
+  const sessionIdRef = useRef<string | null>(null);
+  // Join time of every remote session, from their participant node
+  const peerJoinedRef = useRef<Record<string, number>>({});
   const joinAttemptedRef = useRef(false);
   const joinAttemptsRef = useRef(0);
+  // Set once our participant node exists, so media state can be published
+  const participantWrittenRef = useRef(false);
   const listenersSetupRef = useRef(false);
   const participantsUnsubscribeRef = useRef<(() => void) | null>(null);
-  const offersUnsubscribeRef = useRef<(() => void) | null>(null);
-  const answersUnsubscribeRef = useRef<(() => void) | null>(null);
-  const candidatesUnsubscribeRef = useRef<(() => void) | null>(null);
+  const presenceUnsubscribeRef = useRef<(() => void) | null>(null);
+  // Latest participants node, for peers announced by the signaling server
+  const participantDetailsRef = useRef<Record<string, Participant>>({});
+  const spotlightUnsubscribeRef = useRef<(() => void) | null>(null);
+  // Session the host spotlighted, read by the recording compositor each frame
+  const spotlightRef = useRef<string | null>(null);
+  const signalingRef = useRef<SignalingTransport | null>(null);
+  const topologyRef = useRef<RoomTopology>("mesh");
+  const sfuClientRef = useRef<SfuClient | null>(null);
+  // Streams the SFU delivered, possibly before the participant was listed
+  const sfuStreamsRef = useRef<Record<string, MediaStream>>({});
+  const controlChannelsRef = useRef<Record<string, RTCDataChannel>>({});
+  // Video layer we last asked each peer for, re-sent after reconnecting
+  const requestedLayersRef = useRef<Record<string, VideoLayer>>({});
+  // Video layer each mesh peer asked us for
+  const peerLayersRef = useRef<Record<string, VideoLayer>>({});
+  // Bandwidth adaptation per sending connection, keyed by peer ID or "sfu"
+  const adaptationRef = useRef<Record<string, AdaptationState>>({});
+  const adaptationInterval = useRef<NodeJS.Timeout | null>(null);
+  const dataSaverRef = useRef(false);
+  const qualityInterval = useRef<NodeJS.Timeout | null>(null);
+  // Last stats sample per connection, to compute rates from
+  const qualitySamplesRef = useRef<Record<string, CallStatsSample>>({});
+  const audioLevelMonitorRef = useRef<AudioLevelMonitor | null>(null);
+  const signalingUnsubscribesRef = useRef<Record<string, () => void>>({});
   const mediaInitAttempts = useRef(0);
   const connectionCheckInterval = useRef<NodeJS.Timeout | null>(null);
+  const iceConfigurationRef = useRef<RTCConfiguration>(baseRtcConfiguration);
+  const iceRefreshTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Errors shown to the user also go into the diagnostics timeline
+  const setWebRTCError = (message: string | null) => {
+    if (message) {
+      recordDiagnosticEvent("error", undefined, message);
+    }
+    setWebRTCErrorState(message);
+  };
 
   // Enumerate media devices
   const enumerateDevices = async () => {
     try {
-      console.log("Enumerating media devices...");
+      log.debug("Enumerating media devices...");
       const devices = await navigator.mediaDevices.enumerateDevices();
 
       // Filter video devices
@@ -139,43 +342,139 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         (device) => device.kind === "videoinput"
       );
       setVideoDevices(videoInputs);
-      console.log(`Found ${videoInputs.length} video devices:`, videoInputs);
+      log.debug(`Found ${videoInputs.length} video devices:`, videoInputs);
 
       // Filter audio devices
       const audioInputs = devices.filter(
         (device) => device.kind === "audioinput"
       );
       setAudioDevices(audioInputs);
-      console.log(`Found ${audioInputs.length} audio devices:`, audioInputs);
+      log.debug(`Found ${audioInputs.length} audio devices:`, audioInputs);
+
+      // Filter speakers; browsers without setSinkId list none
+      const audioOutputs = devices.filter(
+        (device) => device.kind === "audiooutput"
+      );
+      setAudioOutputDevices(audioOutputs);
+      log.debug(
+        `Found ${audioOutputs.length} audio output devices:`,
+        audioOutputs
+      );
 
       // Set default devices if not already set
-      if (videoInputs.length > 0 && !selectedVideoDevice) {
-        setSelectedVideoDevice(videoInputs[0].deviceId);
+      setSelectedVideoDeviceState((current) =>
+        pickDevice(videoInputs, current, VIDEO_DEVICE_STORAGE_KEY)
+      );
+      setSelectedAudioDeviceState((current) =>
+        pickDevice(audioInputs, current, AUDIO_DEVICE_STORAGE_KEY)
+      );
+      return devices;
+    } catch (error) {
+      log.error("Error enumerating devices:", error);
+      return null;
+    }
+  };
+
+  // A camera or microphone was plugged in or removed. If one we are sending
+  // from is gone, switch to the default device rather than keep publishing a
+  // track that has ended.
+  const handleDeviceChange = async () => {
+    const devices = await enumerateDevices();
+    if (!devices || !localStream) return;
+
+    const inputs = [
+      {
+        kind: "video" as const,
+        // While sharing the screen the camera is not being sent
+        track: isScreenSharing ? undefined : localStream.getVideoTracks()[0],
+        name: "Camera",
+      },
+      {
+        kind: "audio" as const,
+        track: localStream.getAudioTracks()[0],
+        name: "Microphone",
+      },
+    ];
+
+    for (const { kind, track, name } of inputs) {
+      if (!track) continue;
+      // A gated microphone is checked through the track behind the gate
+      const captureTrack = getCaptureTrack(track);
+      const deviceId = captureTrack.getSettings().deviceId;
+      const isListed = devices.some(
+        (device) =>
+          device.kind === `${kind}input` && device.deviceId === deviceId
+      );
+      if (captureTrack.readyState === "live" && isListed) continue;
+
+      log.warn(`${name} ${captureTrack.label} disconnected`);
+      recordDiagnosticEvent("media:device-lost", undefined, {
+        kind,
+        label: captureTrack.label,
+      });
+
+      if (!devices.some((device) => device.kind === `${kind}input`)) {
+        await detachInputTrack(kind, track);
+        toast({
+          title: `${name} disconnected`,
+          description: `No other ${name.toLowerCase()} was found.`,
+          variant: "destructive",
+        });
+        continue;
       }
 
-      if (audioInputs.length > 0 && !selectedAudioDevice) {
-        setSelectedAudioDevice(audioInputs[0].deviceId);
+      const newTrack = await switchInputDevice(kind, null);
+      if (newTrack) {
+        toast({
+          title: `${name} disconnected`,
+          description: `Switched to ${newTrack.label || "the default device"}.`,
+        });
       }
-    } catch (error) {
-      console.error("Error enumerating devices:", error);
     }
   };
+  const handleDeviceChangeRef = useRef(handleDeviceChange);
+  handleDeviceChangeRef.current = handleDeviceChange;
 
   // Initialize devices on component mount
   useEffect(() => {
     enumerateDevices();
 
     // Set up device change listener
-    navigator.mediaDevices.addEventListener("devicechange", enumerateDevices);
+    const onDeviceChange = () => handleDeviceChangeRef.current();
+    navigator.mediaDevices.addEventListener("devicechange", onDeviceChange);
 
     return () => {
       navigator.mediaDevices.removeEventListener(
         "devicechange",
-        enumerateDevices
+        onDeviceChange
       );
     };
   }, []);
 
+  // Restore the data saver preference for this browser
+  useEffect(() => {
+    try {
+      const enabled = localStorage.getItem(DATA_SAVER_STORAGE_KEY) === "true";
+      dataSaverRef.current = enabled;
+      setIsDataSaverEnabled(enabled);
+    } catch (err) {
+      log.error("Error reading data saver preference:", err);
+    }
+  }, []);
+
+  // Restore the microphone processing picked in this browser
+  useEffect(() => {
+    try {
+      const settings = parseAudioProcessingSettings(
+        localStorage.getItem(AUDIO_PROCESSING_STORAGE_KEY)
+      );
+      audioProcessingRef.current = settings;
+      setAudioProcessingState(settings);
+    } catch (err) {
+      log.error("Error reading audio processing preference:", err);
+    }
+  }, []);
+
   // Check if screen sharing is supported
   useEffect(() => {
     const checkScreenSharing = () => {
@@ -186,7 +485,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
       // Check if getDisplayMedia is available
       if (!navigator.mediaDevices.getDisplayMedia) {
-        console.log("Screen sharing is not supported in this browser");
+        log.debug("Screen sharing is not supported in this browser");
         setIsScreenShareSupported(false);
         return;
       }
@@ -198,12 +497,12 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
       ) {
         // In development or non-secure environments, we'll assume it might work
         if (process.env.NODE_ENV === "development") {
-          console.log(
+          log.debug(
             "Screen sharing might work in development, but requires HTTPS in production"
           );
           setIsScreenShareSupported(true);
         } else {
-          console.log("Screen sharing requires HTTPS");
+          log.debug("Screen sharing requires HTTPS");
           setIsScreenShareSupported(false);
         }
         return;
@@ -217,18 +516,18 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
   // Reconnect peers
   const reconnectPeers = async (roomId: string) => {
-    console.log("Reconnecting to peers...", {
+    log.debug("Reconnecting to peers...", {
       roomId,
-      user,
+      uid: user?.uid,
       localStream,
     });
     if (!roomId || !user || !localStream) {
-      console.log("Cannot reconnect peers: missing required data");
+      log.debug("Cannot reconnect peers: missing required data");
       return;
     }
 
     setConnectionStatus("connecting");
-    console.log("Reconnecting to peers...");
+    log.debug("Reconnecting to peers...");
 
     try {
       // Close existing connections
@@ -236,6 +535,12 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         pc.close();
       });
       peerConnections.current = {};
+      controlChannelsRef.current = {};
+      peerLayersRef.current = {};
+      adaptationRef.current = {};
+      negotiationRef.current = {};
+      pendingCandidatesRef.current = {};
+      appliedCandidatesRef.current = {};
 
       // Keep existing peer structure but clear streams
       setPeers((prevPeers) =>
@@ -247,7 +552,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
       );
 
       // Clean up existing signaling data
-      await cleanupSignalingData(roomId, user.uid);
+      await signalingRef.current?.reset();
 
       // Wait a moment for cleanup to propagate
       await new Promise((resolve) => setTimeout(resolve, 500));
@@ -257,14 +562,13 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         const roomRef = ref(rtdb, `rooms/${roomId}`);
         const snapshot = await get(roomRef);
         if (snapshot.exists()) {
-          const roomData = snapshot.val();
-          const currentRoom: Room = {
-            id: roomId,
-            name: roomData.name,
-            createdBy: roomData.createdBy,
-            createdAt: roomData.createdAt,
-            participants: roomData.participants || {},
-          };
+          const { room: currentRoom, error } = parseRoom(
+            roomId,
+            snapshot.val()
+          );
+          if (!currentRoom) {
+            throw new Error(`Room data is invalid: ${error}`);
+          }
           setupWebRTCListeners(roomId, currentRoom);
         } else {
           throw new Error("Room not found");
@@ -274,7 +578,20 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
       // Refresh local media stream tracks in case of disconnection
       const refreshedStream = await reinitializeMedia();
       if (!refreshedStream) {
-        console.log("Failed to refresh media, continuing with existing stream");
+        log.debug("Failed to refresh media, continuing with existing stream");
+      }
+
+      // SFU rooms only have the one server connection to restore
+      if (topologyRef.current === "sfu") {
+        connectToSfu(roomId);
+        return;
+      }
+
+      // Subscribing again announces everyone the server reports as present
+      if (signalingRef.current?.subscribePresence) {
+        subscribeToPresence(roomId);
+        setConnectionStatus("connected");
+        return;
       }
 
       // Get current participants
@@ -282,124 +599,51 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
       const snapshot = await get(participantsRef);
 
       if (snapshot.exists()) {
-        const participants = snapshot.val();
-        console.log(
+        const participants = parseParticipants(snapshot.val());
+        log.debug(
           `Found ${Object.keys(participants).length} participants in room`
         );
 
         // Create new connections to all participants except self
-        Object.entries(participants).forEach(
-          ([id, participant]: [string, any]) => {
-            if (id !== user.uid) {
-              console.log(`Creating new connection to participant: ${id}`);
-              createPeerConnection(id, roomId, true);
-
-              setPeers((prevPeers) => {
-                if (!prevPeers.some((p) => p.id === id)) {
-                  return [
-                    ...prevPeers,
-                    {
-                      id,
-                      displayName: participant.displayName,
-                    },
-                  ];
-                }
-                return prevPeers;
-              });
-            }
+        Object.entries(participants).forEach(([id, participant]) => {
+          if (id !== sessionIdRef.current) {
+            log.debug(`Creating new connection to participant: ${id}`);
+            createPeerConnection(id, roomId);
+
+            setPeers((prevPeers) => {
+              if (!prevPeers.some((p) => p.id === id)) {
+                return [
+                  ...prevPeers,
+                  {
+                    id,
+                    uid: participant.uid,
+                    displayName: participant.displayName,
+                    media: participant.media,
+                  },
+                ];
+              }
+              return prevPeers;
+            });
           }
-        );
+        });
 
         setConnectionStatus("connected");
       } else {
-        console.log("No participants found in room");
+        log.debug("No participants found in room");
         setConnectionStatus("disconnected");
       }
     } catch (error) {
-      console.error("Error reconnecting to peers:", error);
+      log.error("Error reconnecting to peers:", error);
       setWebRTCError("Failed to reconnect to peers. Please try again.");
       setConnectionStatus("failed");
     }
   };
 
-  // Clean up old signaling data
-  const cleanupSignalingData = async (roomId: string, userId: string) => {
-    try {
-      console.log(
-        `Cleaning up signaling data for room ${roomId} and user ${userId}`
-      );
-
-      // Clean up old offers
-      const offersRef = ref(rtdb, `rooms/${roomId}/offers/${userId}`);
-      await remove(offersRef);
-
-      // Also clean up offers to this user from other participants
-      const allOffersRef = ref(rtdb, `rooms/${roomId}/offers`);
-      const offersSnapshot = await get(allOffersRef);
-      if (offersSnapshot.exists()) {
-        const offers = offersSnapshot.val();
-        for (const [senderId, senderOffers] of Object.entries(offers)) {
-          if (senderId !== userId) {
-            const offerToUserRef = ref(
-              rtdb,
-              `rooms/${roomId}/offers/${senderId}/${userId}`
-            );
-            await remove(offerToUserRef);
-          }
-        }
-      }
-
-      // Clean up old answers
-      const answersRef = ref(rtdb, `rooms/${roomId}/answers/${userId}`);
-      await remove(answersRef);
-
-      // Also clean up answers to this user from other participants
-      const allAnswersRef = ref(rtdb, `rooms/${roomId}/answers`);
-      const answersSnapshot = await get(allAnswersRef);
-      if (answersSnapshot.exists()) {
-        const answers = answersSnapshot.val();
-        for (const [senderId, senderAnswers] of Object.entries(answers)) {
-          if (senderId !== userId) {
-            const answerToUserRef = ref(
-              rtdb,
-              `rooms/${roomId}/answers/${senderId}/${userId}`
-            );
-            await remove(answerToUserRef);
-          }
-        }
-      }
-
-      // Clean up old ICE candidates
-      const candidatesRef = ref(rtdb, `rooms/${roomId}/candidates/${userId}`);
-      await remove(candidatesRef);
-
-      // Also clean up candidates to this user from other participants
-      const allCandidatesRef = ref(rtdb, `rooms/${roomId}/candidates`);
-      const candidatesSnapshot = await get(allCandidatesRef);
-      if (candidatesSnapshot.exists()) {
-        const candidates = candidatesSnapshot.val();
-        for (const [senderId, senderCandidates] of Object.entries(candidates)) {
-          if (senderId !== userId && senderCandidates) {
-            const candidatesToUserRef = ref(
-              rtdb,
-              `rooms/${roomId}/candidates/${senderId}/${userId}`
-            );
-            await remove(candidatesToUserRef);
-          }
-        }
-      }
-
-      console.log("Successfully cleaned up all signaling data");
-    } catch (error) {
-      console.error("Error cleaning up signaling data:", error);
-    }
-  };
-
   // Reinitialize media stream
   const reinitializeMedia = async (): Promise<boolean> => {
     try {
       mediaInitAttempts.current += 1;
-      console.log(
+      log.debug(
         `Reinitializing media (attempt ${mediaInitAttempts.current})...`
       );
 
@@ -409,30 +653,25 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           track.stop();
         });
       }
+      closeNoiseGate();
 
       // Create constraints based on selected devices
-      const constraints: MediaStreamConstraints = {
-        audio: selectedAudioDevice
-          ? { deviceId: { exact: selectedAudioDevice } }
-          : true,
-        video: selectedVideoDevice
-          ? {
-              deviceId: { exact: selectedVideoDevice },
-              width: { ideal: 1280 },
-              height: { ideal: 720 },
-            }
-          : {
-              width: { ideal: 1280 },
-              height: { ideal: 720 },
-            },
-      };
+      const constraints = getMediaConstraints(
+        true,
+        true,
+        selectedVideoDevice,
+        selectedAudioDevice,
+        audioProcessingRef.current
+      );
 
-      console.log("Using media constraints:", constraints);
+      log.debug("Using media constraints:", constraints);
 
       // Try to get the stream with both audio and video
       try {
-        const stream = await navigator.mediaDevices.getUserMedia(constraints);
-        console.log("Successfully got media stream with both audio and video");
+        const stream = await applyNoiseGate(
+          await navigator.mediaDevices.getUserMedia(constraints)
+        );
+        log.debug("Successfully got media stream with both audio and video");
 
         // Check what we actually got
         const hasVideoTrack = stream.getVideoTracks().length > 0;
@@ -449,7 +688,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           track.enabled = isAudioEnabled;
         });
 
-        console.log(
+        log.debug(
           `Stream has video: ${hasVideoTrack}, has audio: ${hasAudioTrack}`
         );
 
@@ -457,19 +696,22 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         setLocalStream(stream);
         originalStream.current = stream;
 
+        // Device labels are only listed once permission has been granted
+        enumerateDevices();
+
         // Update peer connections with new stream
-        Object.values(peerConnections.current).forEach((pc) => {
+        getSendingConnections().forEach((pc) => {
           const senders = pc.getSenders();
 
           stream.getTracks().forEach((track) => {
             const sender = senders.find((s) => s.track?.kind === track.kind);
             if (sender) {
-              console.log(`Replacing ${track.kind} track in peer connection`);
+              log.debug(`Replacing ${track.kind} track in peer connection`);
               sender.replaceTrack(track).catch((err) => {
-                console.error(`Error replacing ${track.kind} track:`, err);
+                log.error(`Error replacing ${track.kind} track:`, err);
               });
             } else {
-              console.log(`Adding new ${track.kind} track to peer connection`);
+              log.debug(`Adding new ${track.kind} track to peer connection`);
               pc.addTrack(track, stream);
             }
           });
@@ -477,16 +719,23 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
         return true;
       } catch (error) {
-        console.error("Error getting media with both audio and video:", error);
+        log.error("Error getting media with both audio and video:", error);
 
         // Try with just audio if video fails
         try {
-          console.log("Trying with audio only...");
-          const audioStream = await navigator.mediaDevices.getUserMedia({
-            audio: true,
-            video: false,
-          });
-          console.log("Successfully got audio-only stream");
+          log.debug("Trying with audio only...");
+          const audioStream = await applyNoiseGate(
+            await navigator.mediaDevices.getUserMedia(
+              getMediaConstraints(
+                false,
+                true,
+                null,
+                null,
+                audioProcessingRef.current
+              )
+            )
+          );
+          log.debug("Successfully got audio-only stream");
 
           setHasVideo(false);
           setHasAudio(true);
@@ -500,7 +749,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           originalStream.current = audioStream;
 
           // Update peer connections with new stream
-          Object.values(peerConnections.current).forEach((pc) => {
+          getSendingConnections().forEach((pc) => {
             const senders = pc.getSenders();
 
             // Remove any existing video tracks from peer connections
@@ -514,7 +763,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
               const sender = senders.find((s) => s.track?.kind === track.kind);
               if (sender) {
                 sender.replaceTrack(track).catch((err) => {
-                  console.error(`Error replacing audio track:`, err);
+                  log.error(`Error replacing audio track:`, err);
                 });
               } else {
                 pc.addTrack(track, audioStream);
@@ -524,7 +773,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
           return true;
         } catch (audioError) {
-          console.error("Error getting audio-only stream:", audioError);
+          log.error("Error getting audio-only stream:", audioError);
           setHasVideo(false);
           setHasAudio(false);
           setWebRTCError(
@@ -534,7 +783,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         }
       }
     } catch (error) {
-      console.error("Error in reinitializeMedia:", error);
+      log.error("Error in reinitializeMedia:", error);
       setWebRTCError(
         "Failed to initialize media devices. Please check your permissions and try again."
       );
@@ -549,35 +798,26 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
       if (localStream) {
         localStream.getTracks().forEach((track) => track.stop());
       }
+      closeNoiseGate();
 
-      console.log("Initializing local media stream");
+      log.debug("Initializing local media stream");
 
       // Create constraints based on selected devices and requested media types
-      const constraints: MediaStreamConstraints = {
-        audio: audio
-          ? selectedAudioDevice
-            ? { deviceId: { exact: selectedAudioDevice } }
-            : true
-          : false,
-        video: video
-          ? selectedVideoDevice
-            ? {
-                deviceId: { exact: selectedVideoDevice },
-                width: { ideal: 1280 },
-                height: { ideal: 720 },
-              }
-            : {
-                width: { ideal: 1280 },
-                height: { ideal: 720 },
-              }
-          : false,
-      };
+      const constraints = getMediaConstraints(
+        video,
+        audio,
+        selectedVideoDevice,
+        selectedAudioDevice,
+        audioProcessingRef.current
+      );
 
-      console.log("Using media constraints:", constraints);
+      log.debug("Using media constraints:", constraints);
 
       // Try to get the stream
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
-      console.log("Local media stream initialized successfully");
+      const stream = await applyNoiseGate(
+        await navigator.mediaDevices.getUserMedia(constraints)
+      );
+      log.debug("Local media stream initialized successfully");
 
       // Check what we actually got
       const hasVideoTrack = stream.getVideoTracks().length > 0;
@@ -597,7 +837,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
       setIsVideoEnabled(true);
       setIsAudioEnabled(true);
 
-      console.log(
+      log.debug(
         `Stream has video: ${hasVideoTrack}, has audio: ${hasAudioTrack}`
       );
 
@@ -605,24 +845,31 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
       originalStream.current = stream;
       return stream;
     } catch (error) {
-      console.error("Error accessing media devices:", error);
+      log.error("Error accessing media devices:", error);
 
       // Try with just audio if video fails
       if (video) {
         try {
-          console.log("Video failed, trying with audio only...");
+          log.debug("Video failed, trying with audio only...");
           return initLocalStream(false, true);
         } catch (audioError) {
-          console.error("Error getting audio-only stream:", audioError);
+          log.error("Error getting audio-only stream:", audioError);
         }
       } else if (!video && audio) {
         try {
-          console.log("Trying with audio only...");
-          const audioOnlyStream = await navigator.mediaDevices.getUserMedia({
-            audio: true,
-            video: false,
-          });
-          console.log("Successfully got audio-only stream");
+          log.debug("Trying with audio only...");
+          const audioOnlyStream = await applyNoiseGate(
+            await navigator.mediaDevices.getUserMedia(
+              getMediaConstraints(
+                false,
+                true,
+                null,
+                null,
+                audioProcessingRef.current
+              )
+            )
+          );
+          log.debug("Successfully got audio-only stream");
 
           setHasVideo(false);
           setHasAudio(true);
@@ -632,7 +879,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           originalStream.current = audioOnlyStream;
           return audioOnlyStream;
         } catch (audioError) {
-          console.error("Error getting audio-only stream:", audioError);
+          log.error("Error getting audio-only stream:", audioError);
         }
       }
 
@@ -672,6 +919,344 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  // Send newTrack in place of oldTrack on every connection and in the local
+  // stream. replaceTrack needs no renegotiation.
+  const replaceLocalTrack = async (
+    oldTrack: MediaStreamTrack,
+    newTrack: MediaStreamTrack
+  ) => {
+    await Promise.all(
+      getSendingConnections().flatMap((pc) =>
+        pc
+          .getSenders()
+          .filter((sender) => sender.track === oldTrack)
+          .map((sender) =>
+            sender.replaceTrack(newTrack).catch((err) => {
+              log.error(`Error replacing ${newTrack.kind} track:`, err);
+            })
+          )
+      )
+    );
+    localStream?.removeTrack(oldTrack);
+    localStream?.addTrack(newTrack);
+  };
+
+  // The microphone track behind a track in localStream, which may be gated
+  const getCaptureTrack = (track: MediaStreamTrack) =>
+    noiseGateRef.current && noiseGateRef.current.track === track
+      ? noiseGateRef.current.input ?? track
+      : track;
+
+  // Gate a microphone track. The gated track takes over its mute state, and
+  // the microphone stays enabled so unmuting the gated track is enough.
+  const startNoiseGate = async (micTrack: MediaStreamTrack) => {
+    const gate = await NoiseGate.create(micTrack);
+    gate.track.enabled = micTrack.enabled;
+    micTrack.enabled = true;
+    noiseGateRef.current = gate;
+    recordDiagnosticEvent("media:noise-gate", undefined, { enabled: true });
+    return gate;
+  };
+
+  const closeNoiseGate = () => {
+    noiseGateRef.current?.close();
+    noiseGateRef.current = null;
+  };
+
+  // Put a newly captured stream's microphone behind the noise gate when it is
+  // on. If the gate cannot start, the microphone is sent ungated.
+  const applyNoiseGate = async (stream: MediaStream) => {
+    const micTrack = stream.getAudioTracks()[0];
+    if (!micTrack || !audioProcessingRef.current.noiseGate) return stream;
+
+    try {
+      const gate = await startNoiseGate(micTrack);
+      stream.removeTrack(micTrack);
+      stream.addTrack(gate.track);
+    } catch (error) {
+      log.error("Error starting noise gate:", error);
+    }
+    return stream;
+  };
+
+  // Swap the camera or microphone while in a call. Only the new track is
+  // acquired, and every sender switches to it with replaceTrack, so nothing is
+  // renegotiated. A null deviceId picks the system default device; force
+  // captures again from the same device, so new audio processing applies.
+  const switchInputDevice = async (
+    kind: "video" | "audio",
+    deviceId: string | null,
+    force = false
+  ) => {
+    const oldTrack =
+      kind === "video"
+        ? localStream?.getVideoTracks()[0]
+        : localStream?.getAudioTracks()[0];
+    if (!localStream || !oldTrack) {
+      // Nothing is live yet; the device is used when media starts
+      return null;
+    }
+    const captureTrack = getCaptureTrack(oldTrack);
+    if (!force && captureTrack.getSettings().deviceId === deviceId) {
+      return null;
+    }
+    if (kind === "video" && isScreenSharing) {
+      log.debug("Screen share is live; new camera applies on media refresh");
+      return null;
+    }
+
+    log.debug(`Switching ${kind} input to device ${deviceId}`);
+    let newTrack: MediaStreamTrack;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(
+        kind === "video"
+          ? getMediaConstraints(true, false, deviceId, null)
+          : getMediaConstraints(
+              false,
+              true,
+              null,
+              deviceId,
+              audioProcessingRef.current
+            )
+      );
+      newTrack = stream.getTracks()[0];
+    } catch (error) {
+      log.error(`Error switching ${kind} device:`, error);
+      setWebRTCError(
+        kind === "video"
+          ? "Could not switch to the selected camera."
+          : "Could not switch to the selected microphone."
+      );
+      // Show the device that is still in use
+      const liveDeviceId = captureTrack.getSettings().deviceId ?? null;
+      if (kind === "video") {
+        setSelectedVideoDeviceState(liveDeviceId);
+      } else {
+        setSelectedAudioDeviceState(liveDeviceId);
+      }
+      return null;
+    }
+
+    const gate = noiseGateRef.current;
+    if (gate && gate.track === oldTrack) {
+      // The gated track keeps being sent; only the microphone behind it
+      // changes, and the gate stops the old one
+      gate.setInput(newTrack);
+    } else {
+      // Keep the mute or camera-off state across the switch
+      newTrack.enabled = kind === "video" ? isVideoEnabled : isAudioEnabled;
+      await replaceLocalTrack(oldTrack, newTrack);
+      oldTrack.stop();
+    }
+
+    // Select the device we ended up with; the default device has no ID until
+    // the track is live
+    const newDeviceId = newTrack.getSettings().deviceId ?? null;
+    if (kind === "video") {
+      setSelectedVideoDeviceState(newDeviceId);
+    } else {
+      setSelectedAudioDeviceState(newDeviceId);
+    }
+
+    recordDiagnosticEvent("media:device-switched", undefined, {
+      kind,
+      label: newTrack.label,
+    });
+    log.debug(`Switched ${kind} input to ${newTrack.label}`);
+    return newTrack;
+  };
+
+  // The last camera or microphone was removed; stop sending that kind of media
+  // but keep the senders, so plugging a device back in only needs a refresh
+  const detachInputTrack = async (
+    kind: "video" | "audio",
+    track: MediaStreamTrack
+  ) => {
+    await Promise.all(
+      getSendingConnections().flatMap((pc) =>
+        pc
+          .getSenders()
+          .filter((sender) => sender.track === track)
+          .map((sender) =>
+            sender.replaceTrack(null).catch((err) => {
+              log.error(`Error removing ${kind} track:`, err);
+            })
+          )
+      )
+    );
+    localStream?.removeTrack(track);
+    if (noiseGateRef.current && noiseGateRef.current.track === track) {
+      closeNoiseGate();
+    } else {
+      track.stop();
+    }
+    if (kind === "video") {
+      setHasVideo(false);
+    } else {
+      setHasAudio(false);
+    }
+  };
+
+  const setSelectedVideoDevice = (deviceId: string) => {
+    setSelectedVideoDeviceState(deviceId);
+    try {
+      localStorage.setItem(VIDEO_DEVICE_STORAGE_KEY, deviceId);
+    } catch (err) {
+      log.error("Error saving camera preference:", err);
+    }
+    switchInputDevice("video", deviceId);
+  };
+
+  const setSelectedAudioDevice = (deviceId: string) => {
+    setSelectedAudioDeviceState(deviceId);
+    try {
+      localStorage.setItem(AUDIO_DEVICE_STORAGE_KEY, deviceId);
+    } catch (err) {
+      log.error("Error saving microphone preference:", err);
+    }
+    switchInputDevice("audio", deviceId);
+  };
+
+  // Change how the microphone is processed. The browser only applies its
+  // processing at capture, so the microphone is captured again when that
+  // changes. The noise gate is added or removed by swapping the sent track.
+  const setAudioProcessing = async (settings: AudioProcessingSettings) => {
+    const previous = audioProcessingRef.current;
+    audioProcessingRef.current = settings;
+    setAudioProcessingState(settings);
+    try {
+      localStorage.setItem(
+        AUDIO_PROCESSING_STORAGE_KEY,
+        JSON.stringify(settings)
+      );
+    } catch (err) {
+      log.error("Error saving audio processing preference:", err);
+    }
+
+    if (!localStream?.getAudioTracks()[0]) {
+      // Nothing is live yet; the settings are used when media starts
+      return;
+    }
+
+    if (needsRecapture(previous, settings)) {
+      const captureTrack = getCaptureTrack(localStream.getAudioTracks()[0]);
+      await switchInputDevice(
+        "audio",
+        captureTrack.getSettings().deviceId ?? null,
+        true
+      );
+    }
+
+    // Recapturing an ungated microphone replaced the sent track
+    const sentTrack = localStream.getAudioTracks()[0];
+    if (!sentTrack) return;
+    const gate = noiseGateRef.current;
+    const isGated = !!gate && gate.track === sentTrack;
+
+    if (settings.noiseGate && !isGated) {
+      try {
+        const newGate = await startNoiseGate(sentTrack);
+        await replaceLocalTrack(sentTrack, newGate.track);
+      } catch (error) {
+        log.error("Error starting noise gate:", error);
+        setWebRTCError("Could not start the noise gate.");
+      }
+    } else if (!settings.noiseGate && gate && isGated && gate.input) {
+      const micTrack = gate.input;
+      micTrack.enabled = sentTrack.enabled;
+      await replaceLocalTrack(sentTrack, micTrack);
+      noiseGateRef.current = null;
+      gate.release();
+      recordDiagnosticEvent("media:noise-gate", undefined, { enabled: false });
+    }
+  };
+
+  // What we are sending, as published in our participant node
+  const describeLocalMedia = (stream: MediaStream | null): ParticipantMedia => {
+    const isSending = (track: MediaStreamTrack) =>
+      track.enabled && track.readyState === "live";
+    return {
+      audio: !!stream?.getAudioTracks().some(isSending),
+      // While sharing, the video track is the screen rather than the camera
+      video: !isScreenSharing && !!stream?.getVideoTracks().some(isSending),
+      screen: isScreenSharing,
+    };
+  };
+
+  // Follow who is speaking while in a room
+  useEffect(() => {
+    if (!currentRoomId) return;
+
+    const monitor = new AudioLevelMonitor();
+    audioLevelMonitorRef.current = monitor;
+    let lastSpeaking = "";
+    const interval = setInterval(() => {
+      const { speaking, dominant } = monitor.sample();
+      // Only re-render when someone starts or stops speaking
+      const key = speaking.sort().join(",");
+      if (key !== lastSpeaking) {
+        lastSpeaking = key;
+        setSpeakingPeerIds(speaking);
+      }
+      setActiveSpeakerId(dominant);
+    }, AUDIO_LEVEL_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      monitor.close();
+      audioLevelMonitorRef.current = null;
+      setSpeakingPeerIds([]);
+      setActiveSpeakerId(null);
+    };
+  }, [currentRoomId]);
+
+  // Keep the monitored streams in step with our stream and the peers'. Runs
+  // after every render, since device switches replace tracks in place.
+  useEffect(() => {
+    const monitor = audioLevelMonitorRef.current;
+    if (!monitor) return;
+
+    const ids: string[] = [];
+    if (localStream) {
+      // Never the dominant speaker; nobody needs to see themselves enlarged
+      monitor.setStream(LOCAL_PEER_ID, localStream, false);
+      ids.push(LOCAL_PEER_ID);
+    }
+    peers.forEach((peer) => {
+      if (peer.stream) {
+        monitor.setStream(peer.id, peer.stream);
+        ids.push(peer.id);
+      }
+    });
+    monitor.retain(ids);
+  });
+
+  // Publish mute, camera and screen share changes to the other participants
+  useEffect(() => {
+    if (!currentRoomId || !participantWrittenRef.current) return;
+
+    const media = describeLocalMedia(localStream);
+    log.debug("Publishing media state:", media);
+    // Only while the participant exists; once the session has left or been
+    // moved, writing media alone would bring back a node without its uid.
+    // Returning null rather than aborting lets the server correct a stale
+    // local copy.
+    runTransaction(
+      ref(rtdb, `rooms/${currentRoomId}/participants/${sessionIdRef.current}`),
+      (participant) => (participant ? { ...participant, media } : null)
+    ).catch((err) => {
+      log.error("Error publishing media state:", err);
+    });
+  }, [
+    currentRoomId,
+    localStream,
+    isAudioEnabled,
+    isVideoEnabled,
+    isScreenSharing,
+    hasAudio,
+    hasVideo,
+  ]);
+
   // Toggle screen sharing
   const toggleScreenShare = async () => {
     if (isScreenSharing) {
@@ -692,7 +1277,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         });
 
         // Update all peer connections with the original stream
-        Object.values(peerConnections.current).forEach((pc) => {
+        getSendingConnections().forEach((pc) => {
           const senders = pc.getSenders();
           const videoSender = senders.find(
             (sender) => sender.track && sender.track.kind === "video"
@@ -700,9 +1285,8 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
           if (videoSender && originalStream.current) {
             const videoTrack = originalStream.current.getVideoTracks()[0];
-            if (videoTrack) {
-              videoSender.replaceTrack(videoTrack);
-            }
+            // Without a camera, keep the sender but stop sending video
+            videoSender.replaceTrack(videoTrack ?? null);
           }
         });
 
@@ -719,7 +1303,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
       try {
         // Start screen sharing
-        console.log("Starting screen sharing");
+        log.debug("Starting screen sharing");
 
         // Attempt to use getDisplayMedia with appropriate options
         const displayMedia: any = { video: true };
@@ -739,7 +1323,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
             displayMedia
           );
         } catch (err) {
-          console.error("Error starting screen share:", err);
+          log.error("Error starting screen share:", err);
 
           // Check for specific error types
           if (err instanceof DOMException && err.name === "NotAllowedError") {
@@ -774,31 +1358,33 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
             // When user stops screen sharing via browser UI
             track.onended = () => {
-              console.log("Screen sharing ended via browser UI");
+              log.debug("Screen sharing ended via browser UI");
               toggleScreenShare();
             };
           });
 
           // Update all peer connections with the screen share stream
-          Object.values(peerConnections.current).forEach((pc) => {
+          getSendingConnections().forEach((pc) => {
             const senders = pc.getSenders();
             const videoSender = senders.find(
               (sender) => sender.track && sender.track.kind === "video"
             );
 
-            if (videoSender) {
-              const videoTrack = displayStream.getVideoTracks()[0];
-              if (videoTrack) {
-                videoSender.replaceTrack(videoTrack);
-              }
+            const videoTrack = displayStream.getVideoTracks()[0];
+            if (videoSender && videoTrack) {
+              videoSender.replaceTrack(videoTrack);
+            } else if (videoTrack) {
+              // Audio-only participants have no video sender yet; adding one
+              // renegotiates the connection through onnegotiationneeded
+              pc.addTrack(videoTrack, localStream);
             }
           });
 
           setIsScreenSharing(true);
-          console.log("Screen sharing started successfully");
+          log.debug("Screen sharing started successfully");
         }
       } catch (error: any) {
-        console.error("Error starting screen share:", error);
+        log.error("Error starting screen share:", error);
         setWebRTCError(
           error.message || "Failed to start screen sharing. Please try again."
         );
@@ -811,24 +1397,27 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
     if (isRecording) {
       // Stop recording
       if (mediaRecorder.current) {
-        console.log("Stopping recording");
+        log.debug("Stopping recording");
         mediaRecorder.current.stop();
         setIsRecording(false);
       }
     } else {
       // Start recording
       if (!localStream) {
-        console.error("Cannot start recording: No local stream available");
+        log.error("Cannot start recording: No local stream available");
         setWebRTCError("Cannot start recording: No local stream available");
         return;
       }
 
       try {
-        console.log("Starting recording");
-        // Get all streams (local + remote)
-        const streams = [localStream];
+        log.debug("Starting recording");
+        // Get all streams (local + remote), keyed by session so the
+        // spotlighted participant can be found while drawing
+        const sources: { id: string | null; stream: MediaStream }[] = [
+          { id: sessionIdRef.current, stream: localStream },
+        ];
         peers.forEach((peer) => {
-          if (peer.stream) streams.push(peer.stream);
+          if (peer.stream) sources.push({ id: peer.id, stream: peer.stream });
         });
 
         // Create a canvas to combine all streams
@@ -836,7 +1425,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         const ctx = canvas.getContext("2d");
 
         if (!ctx) {
-          console.error("Could not get canvas context");
+          log.error("Could not get canvas context");
           setWebRTCError(
             "Failed to start recording: Could not initialize canvas"
           );
@@ -850,7 +1439,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         canvas.height = height;
 
         // Calculate grid layout
-        const totalStreams = streams.length;
+        const totalStreams = Math.min(sources.length, MAX_RECORDING_TILES);
         const cols = Math.ceil(Math.sqrt(totalStreams));
         const rows = Math.ceil(totalStreams / cols);
 
@@ -858,10 +1447,16 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         const videoWidth = width / cols;
         const videoHeight = height / rows;
 
-        // Create video elements for each stream
-        const videoElements: HTMLVideoElement[] = [];
+        // Height of the thumbnail strip under a spotlighted participant
+        const stripHeight = height / 5;
+
+        // Create video elements for each stream. Which of them are drawn is
+        // decided per frame, so a spotlight on anyone past the tile limit
+        // still makes it into the recording.
+        const videoElements: { id: string | null; video: HTMLVideoElement }[] =
+          [];
 
-        for (const stream of streams) {
+        for (const { id, stream } of sources) {
           const video = document.createElement("video");
           video.srcObject = stream;
           video.autoplay = true;
@@ -874,14 +1469,14 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
             };
           });
 
-          videoElements.push(video);
+          videoElements.push({ id, video });
         }
 
         // Create a stream from the canvas
         const canvasStream = canvas.captureStream(30);
 
         // Add audio tracks from all streams
-        streams.forEach((stream) => {
+        sources.forEach(({ stream }) => {
           const audioTracks = stream.getAudioTracks();
           audioTracks.forEach((track) => {
             canvasStream.addTrack(track);
@@ -893,20 +1488,50 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           ctx.fillStyle = "#000000";
           ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-          videoElements.forEach((video, index) => {
-            const col = index % cols;
-            const row = Math.floor(index / cols);
+          // The spotlight is checked every frame, so the recording follows
+          // the host changing it mid-call
+          const spotlight = videoElements.find(
+            ({ id }) => id !== null && id === spotlightRef.current
+          );
 
-            ctx.drawImage(
-              video,
-              col * videoWidth,
-              row * videoHeight,
-              videoWidth,
-              videoHeight
-            );
-          });
+          if (spotlight) {
+            // Spotlighted participant fills the frame above everyone else
+            const others = videoElements
+              .filter((tile) => tile !== spotlight)
+              .slice(0, MAX_RECORDING_TILES - 1);
+            const mainHeight =
+              others.length > 0 ? height - stripHeight : height;
+            ctx.drawImage(spotlight.video, 0, 0, width, mainHeight);
+
+            const thumbWidth = width / Math.max(others.length, 1);
+            others.forEach(({ video }, index) => {
+              ctx.drawImage(
+                video,
+                index * thumbWidth,
+                mainHeight,
+                thumbWidth,
+                stripHeight
+              );
+            });
+          } else {
+            videoElements
+              .slice(0, MAX_RECORDING_TILES)
+              .forEach(({ video }, index) => {
+                const col = index % cols;
+                const row = Math.floor(index / cols);
+
+                ctx.drawImage(
+                  video,
+                  col * videoWidth,
+                  row * videoHeight,
+                  videoWidth,
+                  videoHeight
+                );
+              });
+          }
 
-          if (isRecording) {
+          // isRecording is stale in this closure, so ask the recorder itself
+          if (mediaRecorder.current?.state === "recording") {
             requestAnimationFrame(drawToCanvas);
           }
         };
@@ -936,7 +1561,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
             const fileRef = storageRef(storage, fileName);
 
             try {
-              console.log("Uploading recording to Firebase Storage");
+              log.debug("Uploading recording to Firebase Storage");
               await uploadBytes(fileRef, blob);
               const downloadURL = await getDownloadURL(fileRef);
               setRecordingURL(downloadURL);
@@ -953,15 +1578,15 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
                 timestamp: Date.now(),
               });
 
-              console.log("Recording saved:", downloadURL);
+              log.info("Recording saved:", downloadURL);
             } catch (error) {
-              console.error("Error uploading recording:", error);
+              log.error("Error uploading recording:", error);
               setWebRTCError("Failed to upload recording. Please try again.");
             }
           }
 
           // Clean up
-          videoElements.forEach((video) => {
+          videoElements.forEach(({ video }) => {
             video.srcObject = null;
           });
         };
@@ -969,58 +1594,459 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         mediaRecorder.current.start(1000);
         drawToCanvas();
         setIsRecording(true);
-        console.log("Recording started successfully");
+        log.info("Recording started successfully");
       } catch (error) {
-        console.error("Error starting recording:", error);
+        log.error("Error starting recording:", error);
         setWebRTCError("Failed to start recording. Please try again.");
       }
     }
   };
 
-  // Create a peer connection
-  const createPeerConnection = (
-    peerId: string,
-    roomId: string,
-    initiator = false
-  ): RTCPeerConnection | null => {
-    if (!user || !roomId) {
-      console.warn(
-        "Cannot create peer connection: user or currentRoomId is missing.",
-        { user, roomId }
-      );
-      return null;
+  // Fetch ICE servers (with short-lived TURN credentials) and schedule a
+  // refresh shortly before they expire
+  const refreshIceConfiguration = async (forceRefresh = false) => {
+    if (!user) return;
+
+    if (iceRefreshTimerRef.current) {
+      clearTimeout(iceRefreshTimerRef.current);
+      iceRefreshTimerRef.current = null;
     }
 
-    // If we already have a connection to this peer, close and recreate it
-    if (peerConnections.current[peerId]) {
-      console.log(
-        `Closing existing peer connection for ${peerId} before creating a new one`
-      );
-      try {
-        peerConnections.current[peerId].close();
-      } catch (err) {
-        console.error(`Error closing existing peer connection:`, err);
-      }
-      delete peerConnections.current[peerId];
+    const configuration = await getIceConfiguration(user, forceRefresh);
+    const isChanged =
+      JSON.stringify(configuration.iceServers) !==
+      JSON.stringify(iceConfigurationRef.current.iceServers);
+    iceConfigurationRef.current = configuration;
+
+    // Existing connections need the new credentials to keep their TURN
+    // allocations alive; the ICE restart renegotiates through
+    // onnegotiationneeded. A failed retry changes nothing, so it restarts
+    // nothing.
+    if (forceRefresh && isChanged) {
+      Object.entries(peerConnections.current).forEach(([peerId, pc]) => {
+        try {
+          pc.setConfiguration(configuration);
+          pc.restartIce();
+        } catch (err) {
+          log.error(`Error updating ICE servers for ${peerId}:`, err);
+        }
+      });
     }
 
-    try {
-      console.log(
-        `Creating new peer connection to ${peerId}, initiator: ${initiator}`
-      );
-      const peerConnection = new RTCPeerConnection(
-        configuration as RTCConfiguration
+    const delay = getIceServersRefreshDelay();
+    if (delay > 0) {
+      iceRefreshTimerRef.current = setTimeout(() => {
+        refreshIceConfiguration(true);
+      }, delay);
+    }
+  };
+
+  // Every open connection: one per peer in a mesh, or the publisher and
+  // subscriber connections to the SFU
+  const getConnections = () =>
+    sfuClientRef.current
+      ? [sfuClientRef.current.publisher, sfuClientRef.current.subscriber]
+      : Object.values(peerConnections.current);
+
+  // Connections our local tracks are sent on
+  const getSendingConnections = () =>
+    sfuClientRef.current
+      ? [sfuClientRef.current.publisher]
+      : Object.values(peerConnections.current);
+
+  // Raw stats for every peer connection. Through the SFU all peers share the
+  // same two connections, so they are reported together under "sfu".
+  const getPeerStats = async (): Promise<PeerStatsReport[]> => {
+    if (sfuClientRef.current) {
+      const { publisher, subscriber } = sfuClientRef.current;
+      return [
+        {
+          peerId: "sfu",
+          reports: await Promise.all([
+            publisher.getStats(),
+            subscriber.getStats(),
+          ]),
+        },
+      ];
+    }
+
+    const entries = Object.entries(peerConnections.current);
+    const results = await Promise.allSettled(
+      entries.map(([, pc]) => pc.getStats())
+    );
+    return results.flatMap((result, index) =>
+      result.status === "fulfilled"
+        ? [{ peerId: entries[index][0], reports: [result.value] }]
+        : []
+    );
+  };
+
+  // Score every connection for the signal bars on video tiles, and flag when
+  // our own uplink is what is hurting the call
+  const updateNetworkQuality = async () => {
+    let stats: PeerStatsReport[];
+    try {
+      stats = await getPeerStats();
+    } catch (err) {
+      log.error("Error collecting stats for network quality:", err);
+      return;
+    }
+
+    const samples: Record<string, CallStatsSample> = {};
+    const quality: Record<string, NetworkQuality> = {};
+    stats.forEach(({ peerId, reports }) => {
+      const previous = qualitySamplesRef.current[peerId];
+      samples[peerId] = summarizeStats(reports, previous);
+      // Rates need two samples
+      if (previous) {
+        quality[peerId] = assessNetworkQuality(samples[peerId]);
+      }
+    });
+    qualitySamplesRef.current = samples;
+
+    const rated = Object.keys(quality).map((peerId) => samples[peerId]);
+    const uplinkPoor = isUplinkPoor(rated);
+    setNetworkQuality(quality);
+    setIsLocalUplinkPoor((wasPoor) => {
+      if (wasPoor !== uplinkPoor) {
+        log.debug(`Local uplink ${uplinkPoor ? "degraded" : "recovered"}`);
+      }
+      return uplinkPoor;
+    });
+  };
+
+  // Export everything we know about the call as a JSON file for bug reports
+  const downloadDiagnostics = async () => {
+    const connections = Object.fromEntries(
+      Object.entries(
+        sfuClientRef.current
+          ? {
+              "sfu:publisher": sfuClientRef.current.publisher,
+              "sfu:subscriber": sfuClientRef.current.subscriber,
+            }
+          : peerConnections.current
+      ).map(([id, pc]) => [
+        id,
+        {
+          connectionState: pc.connectionState,
+          iceConnectionState: pc.iceConnectionState,
+          iceGatheringState: pc.iceGatheringState,
+          signalingState: pc.signalingState,
+        },
+      ])
+    );
+
+    let stats: Record<string, unknown> = {};
+    try {
+      const peerStats = await getPeerStats();
+      stats = Object.fromEntries(
+        peerStats.map(({ peerId, reports }) => [
+          peerId,
+          reports.map(serializeStatsReport),
+        ])
+      );
+    } catch (err) {
+      log.error("Error collecting stats for diagnostics:", err);
+    }
+
+    let devices: Record<string, string>[] = [];
+    try {
+      devices = (await navigator.mediaDevices.enumerateDevices()).map(
+        (device) => ({ kind: device.kind, label: device.label })
+      );
+    } catch (err) {
+      log.error("Error listing devices for diagnostics:", err);
+    }
+
+    const timeline = getDiagnosticEvents();
+    const bundle = {
+      generatedAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      roomId: currentRoomId,
+      sessionId: sessionIdRef.current,
+      topology: topologyRef.current,
+      connectionStatus,
+      iceServers: iceConfigurationRef.current.iceServers,
+      media: {
+        hasVideo,
+        hasAudio,
+        isAudioEnabled,
+        isVideoEnabled,
+        isScreenSharing,
+        isDataSaverEnabled,
+        localTracks: originalStream.current?.getTracks().map((track) => ({
+          kind: track.kind,
+          label: track.label,
+          enabled: track.enabled,
+          readyState: track.readyState,
+          settings: track.getSettings(),
+        })),
+      },
+      devices,
+      peers: peers.map((peer) => ({
+        id: peer.id,
+        uid: peer.uid,
+        displayName: peer.displayName,
+        hasStream: !!peer.stream,
+      })),
+      connections,
+      networkQuality,
+      stats,
+      errors: timeline.filter((event) => event.category === "error"),
+      events: timeline,
+      logs: logBuffer.entries(),
+    };
+
+    const filename = `diagnostics-${
+      currentRoomId ?? "call"
+    }-${Date.now()}.json`;
+    downloadDiagnosticsFile(bundle, filename);
+    log.debug(`Diagnostics saved as ${filename}`);
+  };
+
+  // Publish to and subscribe from the SFU instead of connecting to each peer
+  const connectToSfu = (roomId: string) => {
+    const sessionId = sessionIdRef.current;
+    const stream = originalStream.current;
+    if (!sessionId || !stream) {
+      log.warn("Cannot connect to SFU: session or local stream missing");
+      return;
+    }
+
+    sfuClientRef.current?.close();
+    sfuStreamsRef.current = {};
+    delete adaptationRef.current.sfu;
+    const client = new SfuClient(
+      roomId,
+      sessionId,
+      iceConfigurationRef.current,
+      {
+        onStream: (peerId, remoteStream) => {
+          sfuStreamsRef.current[peerId] = remoteStream;
+          setPeers((prevPeers) =>
+            prevPeers.map((peer) =>
+              peer.id === peerId ? { ...peer, stream: remoteStream } : peer
+            )
+          );
+        },
+        onPeerLeft: (peerId) => {
+          delete sfuStreamsRef.current[peerId];
+          setPeers((prevPeers) =>
+            prevPeers.map((peer) =>
+              peer.id === peerId ? { ...peer, stream: undefined } : peer
+            )
+          );
+        },
+        onConnectionStateChange: (state) => {
+          recordDiagnosticEvent("sfu:connection-state", undefined, state);
+          if (state === "connected") {
+            setConnectionStatus("connected");
+          } else if (state === "failed") {
+            setConnectionStatus("failed");
+          }
+        },
+        onError: setWebRTCError,
+      }
+    );
+    client.publish(stream);
+    Object.entries(requestedLayersRef.current).forEach(([peerId, layer]) =>
+      client.setLayer(peerId, layer)
+    );
+    sfuClientRef.current = client;
+  };
+
+  // Close the SFU connections, if any
+  const disconnectFromSfu = () => {
+    sfuClientRef.current?.close();
+    sfuClientRef.current = null;
+    sfuStreamsRef.current = {};
+  };
+
+  // Apply the current bandwidth step, and in a mesh the layer the peer asked
+  // for, to the video sent on one connection
+  const applySenderQuality = async (key: string, pc: RTCPeerConnection) => {
+    const sender = pc.getSenders().find((s) => s.track?.kind === "video");
+    if (!sender) return;
+
+    try {
+      const parameters = sender.getParameters();
+      if (!parameters.encodings?.length) return;
+      const { step } = adaptationRef.current[key] ?? initialAdaptationState();
+      applyQualityStep(parameters.encodings, step, peerLayersRef.current[key]);
+      await sender.setParameters(parameters);
+    } catch (err) {
+      log.error(`Error updating video encoding for ${key}:`, err);
+    }
+  };
+
+  // Scale the video we send to one mesh peer to the layer it asked for
+  const applyVideoLayer = async (peerId: string, layer: VideoLayer) => {
+    const peerConnection = peerConnections.current[peerId];
+    if (!peerConnection) return;
+    peerLayersRef.current[peerId] = layer;
+    log.debug(`Sending ${layer} quality video to peer ${peerId}`);
+    await applySenderQuality(peerId, peerConnection);
+  };
+
+  // Sample each sending connection and step its video quality down when the
+  // path is congested or back up once it has recovered
+  const adaptSendingQuality = async () => {
+    const minStep = dataSaverRef.current ? DATA_SAVER_STEP : 0;
+    const connections: Record<string, RTCPeerConnection> = sfuClientRef.current
+      ? { sfu: sfuClientRef.current.publisher }
+      : peerConnections.current;
+
+    await Promise.all(
+      Object.entries(connections).map(async ([key, pc]) => {
+        if (pc.connectionState !== "connected") return;
+        try {
+          const stats = readSenderStats(await pc.getStats());
+          const previous = adaptationRef.current[key];
+          const next = adaptQuality(
+            previous ?? initialAdaptationState(minStep),
+            stats,
+            minStep
+          );
+          adaptationRef.current[key] = next;
+
+          if (!previous || previous.step !== next.step) {
+            log.debug(
+              `Video quality step for ${key}: ${previous?.step ?? "-"} -> ${
+                next.step
+              }`,
+              stats
+            );
+            await applySenderQuality(key, pc);
+          }
+        } catch (err) {
+          log.error(`Error adapting video quality for ${key}:`, err);
+        }
+      })
+    );
+  };
+
+  // Cap upload at a low quality step regardless of available bandwidth
+  const setDataSaverEnabled = (enabled: boolean) => {
+    log.debug(`Data saver ${enabled ? "enabled" : "disabled"}`);
+    dataSaverRef.current = enabled;
+    setIsDataSaverEnabled(enabled);
+    try {
+      localStorage.setItem(DATA_SAVER_STORAGE_KEY, String(enabled));
+    } catch (err) {
+      log.error("Error saving data saver preference:", err);
+    }
+    adaptSendingQuality();
+  };
+
+  const sendControlMessage = (peerId: string, message: ControlMessage) => {
+    const channel = controlChannelsRef.current[peerId];
+    if (channel?.readyState !== "open") return false;
+    channel.send(JSON.stringify(message));
+    return true;
+  };
+
+  // Ask for a peer's video at the quality a tile of its size needs. The SFU
+  // switches simulcast layers; a mesh peer rescales what it sends us.
+  const requestVideoLayer = (peerId: string, layer: VideoLayer) => {
+    // Tiles also ask when they unmount, which may be because the peer left
+    if (!peerConnections.current[peerId] && !sfuStreamsRef.current[peerId]) {
+      return;
+    }
+    if (requestedLayersRef.current[peerId] === layer) return;
+    requestedLayersRef.current[peerId] = layer;
+    log.debug(`Requesting ${layer} quality video from ${peerId}`);
+
+    if (sfuClientRef.current) {
+      sfuClientRef.current.setLayer(peerId, layer);
+    } else {
+      // Sent once the channel opens if the connection is not up yet
+      sendControlMessage(peerId, { kind: "layer", layer });
+    }
+  };
+
+  // Both sides create the same pre-negotiated channel, so neither has to
+  // wait for the other to announce it
+  const createControlChannel = (
+    peerId: string,
+    peerConnection: RTCPeerConnection
+  ) => {
+    const channel = peerConnection.createDataChannel("control", {
+      negotiated: true,
+      id: 0,
+    });
+    controlChannelsRef.current[peerId] = channel;
+
+    channel.onopen = () => {
+      const layer = requestedLayersRef.current[peerId];
+      if (layer) {
+        sendControlMessage(peerId, { kind: "layer", layer });
+      }
+    };
+    channel.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message?.kind === "layer" && isVideoLayer(message.layer)) {
+          applyVideoLayer(peerId, message.layer);
+        }
+      } catch (err) {
+        log.error(`Invalid control message from ${peerId}:`, err);
+      }
+    };
+  };
+
+  // Create a peer connection
+  const createPeerConnection = (
+    peerId: string,
+    roomId: string
+  ): RTCPeerConnection | null => {
+    const sessionId = sessionIdRef.current;
+    if (!user || !roomId || !sessionId) {
+      log.warn(
+        "Cannot create peer connection: user, session or currentRoomId is missing.",
+        { uid: user?.uid, sessionId, roomId }
       );
+      return null;
+    }
+
+    // If we already have a connection to this peer, close and recreate it
+    if (peerConnections.current[peerId]) {
+      log.debug(
+        `Closing existing peer connection for ${peerId} before creating a new one`
+      );
+      try {
+        peerConnections.current[peerId].close();
+      } catch (err) {
+        log.error(`Error closing existing peer connection:`, err);
+      }
+      delete peerConnections.current[peerId];
+    }
+
+    try {
+      // Both sides compare the same pair of session IDs, so exactly one is
+      // polite, even between two sessions of the same user
+      const polite = sessionId < peerId;
+      log.debug(`Creating new peer connection to ${peerId}, polite: ${polite}`);
+      const peerConnection = new RTCPeerConnection(iceConfigurationRef.current);
       peerConnections.current[peerId] = peerConnection;
+      appliedCandidatesRef.current[peerId] = new Set();
+      delete adaptationRef.current[peerId];
+      negotiationRef.current[peerId] = {
+        polite,
+        makingOffer: false,
+        ignoreOffer: false,
+        isSettingRemoteAnswerPending: false,
+      };
+      subscribeToPeer(peerId, roomId);
+      createControlChannel(peerId, peerConnection);
 
       // Critical: Handle incoming tracks
       peerConnection.ontrack = (event) => {
-        console.log(`Received track from peer ${peerId}:`, event.track.kind);
+        log.debug(`Received track from peer ${peerId}:`, event.track.kind);
 
         // Use the event's streams if available (most browser implementations)
         if (event.streams && event.streams.length > 0) {
           const remoteStream = event.streams[0];
-          console.log(
+          log.debug(
             `Using remote stream directly from event:`,
             remoteStream.id
           );
@@ -1028,7 +2054,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           setPeers((prevPeers) => {
             return prevPeers.map((peer) => {
               if (peer.id === peerId) {
-                console.log(
+                log.debug(
                   `Setting stream for peer ${peerId}:`,
                   remoteStream.id
                 );
@@ -1043,7 +2069,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           });
         } else {
           // Fallback if event doesn't provide streams (rare/older browsers)
-          console.log(
+          log.debug(
             `No streams in track event, creating new stream for ${peerId}`
           );
           let peerStream: MediaStream | undefined;
@@ -1058,10 +2084,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
                   try {
                     peer.stream.addTrack(event.track);
                   } catch (err) {
-                    console.error(
-                      `Error adding track to existing stream:`,
-                      err
-                    );
+                    log.error(`Error adding track to existing stream:`, err);
                     // Create new stream if adding track fails
                     peerStream = new MediaStream([event.track]);
                   }
@@ -1089,7 +2112,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
       // Add local tracks to the peer connection
       if (localStream && localStream.getTracks().length > 0) {
-        console.log(
+        log.debug(
           `Adding ${
             localStream.getTracks().length
           } local tracks to peer connection`
@@ -1098,15 +2121,12 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           try {
             peerConnection.addTrack(track, localStream);
           } catch (err) {
-            console.error(
-              `Error adding ${track.kind} track to connection:`,
-              err
-            );
+            log.error(`Error adding ${track.kind} track to connection:`, err);
           }
         });
       } else {
         // Initialize local stream if not already done
-        console.log("No local stream available, initializing one");
+        log.debug("No local stream available, initializing one");
         initLocalStream()
           .then((stream) => {
             if (stream) {
@@ -1114,18 +2134,18 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
                 try {
                   peerConnection.addTrack(track, stream);
                 } catch (err) {
-                  console.error(`Error adding track to connection:`, err);
+                  log.error(`Error adding track to connection:`, err);
                 }
               });
             } else {
-              console.error("Failed to initialize local stream");
+              log.error("Failed to initialize local stream");
               setWebRTCError("Failed to initialize local stream");
               joinAttemptedRef.current = false;
             }
           })
           .catch((error) => {
             const errorMessage = "Failed to initialize local stream";
-            console.error(errorMessage, error);
+            log.error(errorMessage, error);
             setWebRTCError(errorMessage);
             joinAttemptedRef.current = false;
           });
@@ -1134,28 +2154,44 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
       // Handle ICE candidates
       peerConnection.onicecandidate = (event) => {
         if (event.candidate) {
-          console.log(
+          log.debug(
             `Generated ICE candidate for peer ${peerId}:`,
             event.candidate
           );
-          const candidateRef = ref(
-            rtdb,
-            `rooms/${roomId}/candidates/${user.uid}/${peerId}`
-          );
-          push(candidateRef, event.candidate.toJSON());
+        } else {
+          log.debug(`ICE gathering complete for peer ${peerId}`);
         }
+
+        signalingRef.current
+          ?.sendCandidate(
+            peerId,
+            event.candidate ? event.candidate.toJSON() : END_OF_CANDIDATES
+          )
+          .catch((err) => {
+            log.error(`Error sending ICE candidate to ${peerId}:`, err);
+          });
       };
 
       // Handle ICE gathering state changes
       peerConnection.onicegatheringstatechange = () => {
-        console.log(
+        recordDiagnosticEvent(
+          "ice-gathering-state",
+          peerId,
+          peerConnection.iceGatheringState
+        );
+        log.debug(
           `ICE gathering state: ${peerConnection.iceGatheringState} for peer ${peerId}`
         );
       };
 
       // Handle ICE connection state changes
       peerConnection.oniceconnectionstatechange = () => {
-        console.log(
+        recordDiagnosticEvent(
+          "ice-connection-state",
+          peerId,
+          peerConnection.iceConnectionState
+        );
+        log.debug(
           `ICE connection state change: ${peerConnection.iceConnectionState} for peer ${peerId}`
         );
 
@@ -1163,16 +2199,16 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           peerConnection.iceConnectionState === "connected" ||
           peerConnection.iceConnectionState === "completed"
         ) {
-          console.log(`Connection to peer ${peerId} established successfully`);
+          log.debug(`Connection to peer ${peerId} established successfully`);
           setConnectionStatus("connected");
         } else if (peerConnection.iceConnectionState === "failed") {
-          console.log(
+          log.debug(
             `ICE connection to peer ${peerId} failed, attempting to restart ICE`
           );
           try {
             peerConnection.restartIce();
           } catch (err) {
-            console.error(`Error restarting ICE:`, err);
+            log.error(`Error restarting ICE:`, err);
           }
 
           // Update connection status, but don't set to failed unless all connections are failed
@@ -1186,7 +2222,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
             setConnectionStatus("failed");
           }
         } else if (peerConnection.iceConnectionState === "disconnected") {
-          console.log(
+          log.debug(
             `ICE connection to peer ${peerId} disconnected, waiting for reconnection`
           );
 
@@ -1206,11 +2242,11 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           // Try to restart ICE after a short delay
           setTimeout(() => {
             if (peerConnection.iceConnectionState === "disconnected") {
-              console.log(`Attempting to restart ICE for peer ${peerId}`);
+              log.debug(`Attempting to restart ICE for peer ${peerId}`);
               try {
                 peerConnection.restartIce();
               } catch (err) {
-                console.error(`Error restarting ICE:`, err);
+                log.error(`Error restarting ICE:`, err);
               }
             }
           }, 2000);
@@ -1219,24 +2255,29 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
       // Handle connection state changes
       peerConnection.onconnectionstatechange = () => {
-        console.log(
+        recordDiagnosticEvent(
+          "connection-state",
+          peerId,
+          peerConnection.connectionState
+        );
+        log.debug(
           `Connection state change: ${peerConnection.connectionState} for peer ${peerId}`
         );
 
         if (peerConnection.connectionState === "connected") {
-          console.log(`Connection to peer ${peerId} established`);
+          log.info(`Connection to peer ${peerId} established`);
           setConnectionStatus("connected");
         } else if (
           peerConnection.connectionState === "failed" ||
           peerConnection.connectionState === "closed"
         ) {
-          console.log(`Connection to peer ${peerId} failed or closed`);
+          log.debug(`Connection to peer ${peerId} failed or closed`);
 
           // Close and remove this peer connection
           try {
             peerConnections.current[peerId]?.close();
           } catch (err) {
-            console.error(`Error closing peer connection:`, err);
+            log.error(`Error closing peer connection:`, err);
           }
           delete peerConnections.current[peerId];
 
@@ -1259,47 +2300,49 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
       // Handle signaling state changes
       peerConnection.onsignalingstatechange = () => {
-        console.log(
+        recordDiagnosticEvent(
+          "signaling-state",
+          peerId,
+          peerConnection.signalingState
+        );
+        log.debug(
           `Signaling state change: ${peerConnection.signalingState} for peer ${peerId}`
         );
       };
 
-      // Handle negotiation needed
+      // Handle negotiation needed. Fires for the initial tracks as well as
+      // any later track add/remove or ICE restart, so renegotiation mid-call
+      // goes through the same path.
       peerConnection.onnegotiationneeded = async () => {
-        if (initiator && roomId && user) {
-          console.log(`Negotiation needed for peer ${peerId}, creating offer`);
-          try {
-            // If not in stable state, wait for it
-            if (peerConnection.signalingState !== "stable") {
-              console.log(`Connection not stable, delaying offer creation`);
-              return;
-            }
+        const negotiation = negotiationRef.current[peerId];
+        if (
+          peerConnections.current[peerId] !== peerConnection ||
+          !negotiation
+        ) {
+          return;
+        }
 
-            const offer = await peerConnection.createOffer();
-            await peerConnection.setLocalDescription(offer);
+        log.debug(`Negotiation needed for peer ${peerId}, creating offer`);
+        try {
+          negotiation.makingOffer = true;
+          await peerConnection.setLocalDescription();
 
-            console.log(`Sending offer to peer ${peerId}:`, offer);
-            const offerRef = ref(
-              rtdb,
-              `rooms/${roomId}/offers/${user.uid}/${peerId}`
-            );
-            await set(offerRef, {
-              type: "offer",
-              sdp: peerConnection.localDescription?.sdp,
-            });
-          } catch (error) {
-            console.error(
-              `Error during negotiation with peer ${peerId}:`,
-              error
-            );
-            setWebRTCError("Failed to negotiate connection. Please try again.");
-          }
+          log.debug(`Sending offer to peer ${peerId}`);
+          await signalingRef.current?.sendOffer(peerId, {
+            type: "offer",
+            sdp: peerConnection.localDescription?.sdp ?? "",
+          });
+        } catch (error) {
+          log.error(`Error during negotiation with peer ${peerId}:`, error);
+          setWebRTCError("Failed to negotiate connection. Please try again.");
+        } finally {
+          negotiation.makingOffer = false;
         }
       };
 
       // Handle incoming tracks
       peerConnection.ontrack = (event) => {
-        console.log(
+        log.debug(
           `Received track from peer ${peerId}:`,
           event.track.kind,
           event
@@ -1310,10 +2353,10 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         let remoteStream: MediaStream;
 
         if (event.streams && event.streams[0]) {
-          console.log(`Using event stream for peer ${peerId}`);
+          log.debug(`Using event stream for peer ${peerId}`);
           remoteStream = event.streams[0];
         } else {
-          console.log(`Creating new stream for peer ${peerId}`);
+          log.debug(`Creating new stream for peer ${peerId}`);
           remoteStream = new MediaStream();
           remoteStream.addTrack(event.track);
         }
@@ -1325,26 +2368,22 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
             const existingPeer = updatedPeers[peerIndex];
 
             // Always make sure we have the latest track
-            console.log(
+            log.debug(
               `Adding ${event.track.kind} track to peer ${peerId} stream`
             );
 
             // Listen for track ended events
             event.track.onended = () => {
-              console.log(
-                `Track ${event.track.kind} from peer ${peerId} ended`
-              );
+              log.debug(`Track ${event.track.kind} from peer ${peerId} ended`);
             };
 
             // Listen for mute/unmute events
             event.track.onmute = () => {
-              console.log(
-                `Track ${event.track.kind} from peer ${peerId} muted`
-              );
+              log.debug(`Track ${event.track.kind} from peer ${peerId} muted`);
             };
 
             event.track.onunmute = () => {
-              console.log(
+              log.debug(
                 `Track ${event.track.kind} from peer ${peerId} unmuted`
               );
             };
@@ -1355,7 +2394,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
               connection: peerConnection,
             };
 
-            console.log(`Updated peer ${peerId} with stream:`, remoteStream);
+            log.debug(`Updated peer ${peerId} with stream:`, remoteStream);
             return updatedPeers;
           }
           return prevPeers;
@@ -1364,17 +2403,361 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
       return peerConnection;
     } catch (error) {
-      console.error(`Error creating peer connection to ${peerId}:`, error);
+      log.error(`Error creating peer connection to ${peerId}:`, error);
       setWebRTCError("Failed to create peer connection. Please try again.");
       return null;
     }
   };
 
+  // Remember when a remote session joined the room
+  const trackPeerSession = (peerId: string, participant: Participant) => {
+    peerJoinedRef.current[peerId] = participant.joined;
+  };
+
+  // Drop signaling that wasn't written by the peer's current session. Peer IDs
+  // are session IDs, so anything stamped with another session is stale.
+  // Timestamps are compared with the peer's own join time, so both come from
+  // the same clock.
+  const isCurrentSignal = (
+    peerId: string,
+    kind: string,
+    message: SignalingMetadata
+  ) => {
+    if (message.sessionId && message.sessionId !== peerId) {
+      log.debug(
+        `Ignoring stale ${kind} from ${peerId} (session ${message.sessionId})`
+      );
+      return false;
+    }
+
+    const joined = peerJoinedRef.current[peerId];
+    if (message.timestamp && joined && message.timestamp < joined) {
+      log.debug(`Ignoring ${kind} from ${peerId} sent before it joined`);
+      return false;
+    }
+
+    return true;
+  };
+
+  // Validate the participants node, skipping entries that don't match the
+  // schema so one bad write can't break the whole room
+  const parseParticipants = (data: unknown) => {
+    const participants: Record<string, Participant> = {};
+    Object.entries((data as Record<string, unknown>) || {}).forEach(
+      ([id, value]) => {
+        const result = participantSchema.safeParse(value);
+        if (result.success) {
+          participants[id] = result.data;
+        } else {
+          const message = describeSchemaError(result.error);
+          log.error(`Ignoring malformed participant ${id}:`, message);
+          setWebRTCError(`Participant ${id} has invalid data: ${message}`);
+        }
+      }
+    );
+    return participants;
+  };
+
+  // Subscribe to signaling messages sent to us by a peer
+  const subscribeToPeer = (peerId: string, roomId: string) => {
+    const signaling = signalingRef.current;
+    if (!signaling || signalingUnsubscribesRef.current[peerId]) return;
+
+    log.debug(`Subscribing to signaling from peer ${peerId}`);
+    signalingUnsubscribesRef.current[peerId] = signaling.subscribe(peerId, {
+      onOffer: (message) => {
+        const offer = parseSignal(peerId, "offer", offerSchema, message);
+        if (offer && isCurrentSignal(peerId, "offer", offer)) {
+          handleRemoteDescription(peerId, roomId, offer);
+        }
+      },
+      onAnswer: (message) => {
+        const answer = parseSignal(peerId, "answer", answerSchema, message);
+        if (answer && isCurrentSignal(peerId, "answer", answer)) {
+          handleRemoteDescription(peerId, roomId, answer);
+        }
+      },
+      onCandidate: (message) => {
+        const candidate = parseSignal(
+          peerId,
+          "candidate",
+          candidateSchema,
+          message
+        );
+        if (candidate && isCurrentSignal(peerId, "candidate", candidate)) {
+          handleRemoteCandidate(peerId, candidate);
+        }
+      },
+      onBye: () => handleRemoteBye(peerId),
+    });
+  };
+
+  // Validate a signaling message, dropping it if it is malformed
+  const parseSignal = <T,>(
+    peerId: string,
+    kind: string,
+    schema: z.ZodType<T>,
+    message: unknown
+  ): T | null => {
+    const result = schema.safeParse(message);
+    if (result.success) return result.data;
+
+    const error = describeSchemaError(result.error);
+    log.error(`Ignoring malformed ${kind} from ${peerId}:`, error);
+    setWebRTCError(`Received an invalid ${kind} from a peer: ${error}`);
+    return null;
+  };
+
+  // Stop listening for signaling messages from a peer
+  const unsubscribeFromPeer = (peerId: string) => {
+    signalingUnsubscribesRef.current[peerId]?.();
+    delete signalingUnsubscribesRef.current[peerId];
+  };
+
+  // Handle an offer or answer received from a peer
+  const handleRemoteDescription = async (
+    senderId: string,
+    roomId: string,
+    description: SessionDescriptionMessage
+  ) => {
+    log.debug(`Received ${description.type} from ${senderId}`);
+
+    // Create peer connection if it doesn't exist
+    let peerConnection: RTCPeerConnection | null =
+      peerConnections.current[senderId];
+    if (!peerConnection) {
+      if (description.type === "answer") {
+        log.warn(
+          `Received answer from ${senderId} but no peer connection exists`
+        );
+        return;
+      }
+
+      log.debug(
+        `Creating new peer connection for ${senderId} in response to offer`
+      );
+      peerConnection = createPeerConnection(senderId, roomId);
+      if (!peerConnection) {
+        log.error(`Failed to create peer connection for ${senderId}`);
+        return;
+      }
+    }
+
+    const negotiation = negotiationRef.current[senderId];
+    if (!negotiation) return;
+
+    try {
+      const readyForOffer =
+        !negotiation.makingOffer &&
+        (peerConnection.signalingState === "stable" ||
+          negotiation.isSettingRemoteAnswerPending);
+      const offerCollision = description.type === "offer" && !readyForOffer;
+
+      negotiation.ignoreOffer = !negotiation.polite && offerCollision;
+      if (negotiation.ignoreOffer) {
+        log.debug(
+          `Ignoring colliding offer from ${senderId}, waiting for it to answer ours`
+        );
+        return;
+      }
+
+      // On collision the polite side rolls back its own offer implicitly here
+      negotiation.isSettingRemoteAnswerPending = description.type === "answer";
+      const previousUfrag = iceUfrag(peerConnection.remoteDescription?.sdp);
+      await peerConnection.setRemoteDescription(description);
+      negotiation.isSettingRemoteAnswerPending = false;
+      // After an ICE restart the peer gathers again, and its end-of-candidates
+      // looks the same as last time's
+      if (iceUfrag(description.sdp) !== previousUfrag) {
+        appliedCandidatesRef.current[senderId] = new Set();
+      }
+      flushPendingCandidates(senderId, peerConnection);
+      log.debug(`Set remote description (${description.type}) for ${senderId}`);
+
+      if (description.type === "offer") {
+        await peerConnection.setLocalDescription();
+
+        log.debug(`Sending answer to ${senderId}`);
+        await signalingRef.current?.sendAnswer(senderId, {
+          type: "answer",
+          sdp: peerConnection.localDescription?.sdp ?? "",
+        });
+      }
+    } catch (error) {
+      negotiation.isSettingRemoteAnswerPending = false;
+      log.error(`Error handling ${description.type} from ${senderId}:`, error);
+      setWebRTCError(
+        description.type === "offer"
+          ? "Failed to respond to connection offer. Please try again."
+          : "Failed to establish connection. Please try again."
+      );
+    }
+  };
+
+  // Handle an ICE candidate received from a peer. Candidates that arrive
+  // before the remote description (or before the connection exists) are
+  // buffered and flushed once setRemoteDescription completes.
+  const handleRemoteCandidate = (
+    senderId: string,
+    candidate: IceCandidateMessage
+  ) => {
+    const key = candidateKey(candidate);
+    if (appliedCandidatesRef.current[senderId]?.has(key)) {
+      log.debug(`Ignoring duplicate ICE candidate from ${senderId}`);
+      return;
+    }
+
+    const peerConnection = peerConnections.current[senderId];
+    if (!peerConnection?.remoteDescription) {
+      const pending = (pendingCandidatesRef.current[senderId] ||= []);
+      if (!pending.some((queued) => candidateKey(queued) === key)) {
+        log.debug(
+          `Remote description not set for ${senderId}, queuing ICE candidate`
+        );
+        pending.push(candidate);
+      }
+      return;
+    }
+
+    applyRemoteCandidate(senderId, peerConnection, candidate);
+  };
+
+  // Apply every candidate buffered for a peer, in arrival order
+  const flushPendingCandidates = (
+    senderId: string,
+    peerConnection: RTCPeerConnection
+  ) => {
+    const pending = pendingCandidatesRef.current[senderId] || [];
+    delete pendingCandidatesRef.current[senderId];
+    if (pending.length > 0) {
+      log.debug(
+        `Flushing ${pending.length} queued ICE candidates for ${senderId}`
+      );
+    }
+    pending.forEach((candidate) =>
+      applyRemoteCandidate(senderId, peerConnection, candidate)
+    );
+  };
+
+  const applyRemoteCandidate = async (
+    senderId: string,
+    peerConnection: RTCPeerConnection,
+    candidate: IceCandidateMessage
+  ) => {
+    const applied = (appliedCandidatesRef.current[senderId] ||= new Set());
+    const key = candidateKey(candidate);
+    if (applied.has(key)) return;
+    applied.add(key);
+
+    try {
+      if (!candidate.candidate) {
+        log.debug(`End of ICE candidates from ${senderId}`);
+        await peerConnection.addIceCandidate();
+        return;
+      }
+
+      log.debug(`Adding ICE candidate from ${senderId}`, candidate);
+      await peerConnection.addIceCandidate(candidate);
+    } catch (error) {
+      // Candidates for an offer we ignored are expected to fail
+      if (negotiationRef.current[senderId]?.ignoreOffer) return;
+
+      log.error(`Error adding ICE candidate from ${senderId}:`, error);
+
+      // Don't show error message for minor ICE issues
+      if (
+        String(error).includes("Cannot add ICE candidate") &&
+        !String(error).includes("Connection failed")
+      ) {
+        log.debug(`Non-critical ICE error: ${error}`);
+      } else {
+        setWebRTCError(
+          "Connection issue. Try reconnecting if video doesn't appear."
+        );
+      }
+    }
+  };
+
+  // Handle a peer telling us it hung up
+  const handleRemoteBye = (peerId: string) => {
+    log.debug(`Peer ${peerId} said bye, closing connection`);
+    try {
+      peerConnections.current[peerId]?.close();
+    } catch (err) {
+      log.error(`Error closing connection to ${peerId}:`, err);
+    }
+    delete peerConnections.current[peerId];
+    delete controlChannelsRef.current[peerId];
+    delete adaptationRef.current[peerId];
+    delete negotiationRef.current[peerId];
+    delete pendingCandidatesRef.current[peerId];
+    delete appliedCandidatesRef.current[peerId];
+    setPeers((prevPeers) =>
+      prevPeers.map((peer) =>
+        peer.id === peerId
+          ? { ...peer, stream: undefined, connection: undefined }
+          : peer
+      )
+    );
+  };
+
+  // Close the connection to a peer that left the room and forget about it
+  const closePeerThatLeft = (id: string) => {
+    log.debug(`Closing connection to peer that left: ${id}`);
+    peerConnections.current[id]?.close();
+    delete peerConnections.current[id];
+    delete controlChannelsRef.current[id];
+    delete peerLayersRef.current[id];
+    delete adaptationRef.current[id];
+    delete requestedLayersRef.current[id];
+    delete negotiationRef.current[id];
+    delete pendingCandidatesRef.current[id];
+    delete appliedCandidatesRef.current[id];
+    delete peerJoinedRef.current[id];
+    unsubscribeFromPeer(id);
+  };
+
+  // Connect to whoever the signaling server reports in the room, for
+  // transports that know. Peers already present are announced right away.
+  const subscribeToPresence = (roomId: string) => {
+    presenceUnsubscribeRef.current?.();
+    presenceUnsubscribeRef.current =
+      signalingRef.current?.subscribePresence?.({
+        onPeerJoined: (id) => {
+          if (id === sessionIdRef.current || peerConnections.current[id]) {
+            return;
+          }
+
+          // Usually listed already, as the server only admits participants
+          const participant = participantDetailsRef.current[id];
+          setPeers((prevPeers) =>
+            prevPeers.some((p) => p.id === id)
+              ? prevPeers
+              : [
+                  ...prevPeers,
+                  {
+                    id,
+                    uid: participant?.uid ?? "",
+                    displayName: participant?.displayName ?? "Anonymous",
+                    media: participant?.media,
+                  },
+                ]
+          );
+          log.debug(`Creating peer connection to new participant: ${id}`);
+          createPeerConnection(id, roomId);
+        },
+        onPeerLeft: (id) => {
+          closePeerThatLeft(id);
+          setPeers((prevPeers) => prevPeers.filter((peer) => peer.id !== id));
+        },
+      }) ?? null;
+  };
+
   // Set up WebRTC listeners
   const setupWebRTCListeners = (roomId: string, currentRoom: Room | null) => {
     if (!user || !roomId || !currentRoom) {
-      console.error("Cannot set up WebRTC listeners: No user", {
-        user,
+      log.error("Cannot set up WebRTC listeners: No user", {
+        uid: user?.uid,
         roomId,
         currentRoom,
       });
@@ -1382,59 +2765,92 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
     }
 
     if (listenersSetupRef.current) {
-      console.log("WebRTC listeners already set up, cleaning up first");
+      log.debug("WebRTC listeners already set up, cleaning up first");
       cleanupWebRTCListeners();
     }
 
-    console.log(`Setting up WebRTC listeners for room ${roomId}`);
+    log.debug(`Setting up WebRTC listeners for room ${roomId}`);
 
     // Listen for participants
-    console.log("Setting up participants listener");
+    log.debug("Setting up participants listener");
     const participantsRef = ref(rtdb, `rooms/${roomId}/participants`);
     const participantsUnsubscribe = onValue(
       participantsRef,
       (snapshot) => {
         if (snapshot.exists() && user) {
-          const participants = snapshot.val();
-          console.log(
+          const participants = parseParticipants(snapshot.val());
+          log.debug(
             `Participants updated: ${
               Object.keys(participants).length
             } participants:`,
             participants
           );
 
+          participantDetailsRef.current = participants;
+          // With presence from the signaling server, the participants node
+          // only supplies names and media state
+          const peersFromPresence = !!signalingRef.current?.subscribePresence;
+
           // Add new peers
-          Object.entries(participants).forEach(
-            ([id, participant]: [string, any]) => {
-              if (id !== user.uid && !peerConnections.current[id]) {
-                console.log({ id, currentRoom });
-                console.log(
-                  `Creating peer connection to new participant: ${id}`
-                );
-                setPeers((prevPeers) => {
-                  if (!prevPeers.some((p) => p.id === id)) {
-                    return [
-                      ...prevPeers,
-                      {
-                        id,
-                        displayName: participant.displayName,
-                      },
-                    ];
-                  }
-                  return prevPeers;
-                });
-                createPeerConnection(id, roomId, true);
+          Object.entries(participants).forEach(([id, participant]) => {
+            if (id === sessionIdRef.current) return;
+
+            trackPeerSession(id, participant);
+
+            if (!peersFromPresence && !peerConnections.current[id]) {
+              setPeers((prevPeers) => {
+                if (!prevPeers.some((p) => p.id === id)) {
+                  return [
+                    ...prevPeers,
+                    {
+                      id,
+                      uid: participant.uid,
+                      displayName: participant.displayName,
+                      stream: sfuStreamsRef.current[id],
+                      media: participant.media,
+                    },
+                  ];
+                }
+                return prevPeers;
+              });
+
+              // SFU rooms receive every peer over the one server connection
+              if (topologyRef.current === "mesh") {
+                log.debug(`Creating peer connection to new participant: ${id}`);
+                createPeerConnection(id, roomId);
               }
             }
+          });
+
+          // Keep mute, camera and screen share state current, and fill in
+          // peers the signaling server announced before their details
+          setPeers((prevPeers) =>
+            prevPeers.map((peer) => {
+              const participant = participants[peer.id];
+              if (participant && !peer.uid) {
+                return {
+                  ...peer,
+                  uid: participant.uid,
+                  displayName: participant.displayName,
+                  media: participant.media,
+                };
+              }
+              const media = participant?.media;
+              return media && !isSameMedia(media, peer.media)
+                ? { ...peer, media }
+                : peer;
+            })
           );
 
+          if (peersFromPresence) return;
+
           // Remove peers that left
           setPeers((prevPeers) => {
             const updatedPeers = prevPeers.filter((peer) =>
               Object.keys(participants).includes(peer.id)
             );
             if (updatedPeers.length !== prevPeers.length) {
-              console.log(
+              log.debug(
                 `Removed ${
                   prevPeers.length - updatedPeers.length
                 } peers that left`
@@ -1446,466 +2862,39 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           // Close connections to peers that left
           Object.keys(peerConnections.current).forEach((id) => {
             if (!Object.keys(participants).includes(id)) {
-              console.log(`Closing connection to peer that left: ${id}`);
-              peerConnections.current[id].close();
-              delete peerConnections.current[id];
+              closePeerThatLeft(id);
             }
           });
         }
       },
       (error) => {
-        console.error("Error in participants listener:", error);
+        log.error("Error in participants listener:", error);
         setWebRTCError(
           "Failed to connect to room participants. Please try again."
         );
       }
     );
     participantsUnsubscribeRef.current = participantsUnsubscribe;
+    subscribeToPresence(roomId);
 
-    // Listen for offers
-    console.log("Setting up offers listener");
-    const offersRef = ref(rtdb, `rooms/${roomId}/offers`);
-    const offersUnsubscribe = onValue(
-      offersRef,
+    // Follow the host's spotlight so recordings focus on the same participant
+    spotlightUnsubscribeRef.current = onValue(
+      ref(rtdb, `rooms/${roomId}/spotlight`),
       (snapshot) => {
-        if (snapshot.exists() && user) {
-          const offers = snapshot.val();
-          console.log("Received offers:", offers);
-
-          Object.entries(offers).forEach(
-            ([senderId, senderOffers]: [string, any]) => {
-              console.log({ senderId, userId: user.uid });
-              if (senderId !== user.uid) {
-                Object.entries(senderOffers).forEach(
-                  async ([receiverId, offer]: [string, any]) => {
-                    if (receiverId === user.uid && offer) {
-                      console.log(`Received offer from ${senderId}:`, offer);
-
-                      // Create peer connection if it doesn't exist
-                      let peerConnection = peerConnections.current[senderId];
-
-                      if (!peerConnection) {
-                        console.log(
-                          `Creating new peer connection for ${senderId} in response to offer`
-                        );
-                        const newConnection = createPeerConnection(
-                          senderId,
-                          roomId,
-                          false
-                        );
-
-                        if (newConnection) {
-                          peerConnection = newConnection;
-                        } else {
-                          console.error(
-                            `Failed to create peer connection for ${senderId}`
-                          );
-                          return;
-                        }
-                      }
-
-                      if (!peerConnection) {
-                        console.error(
-                          `Failed to create peer connection for ${senderId}`
-                        );
-                        return;
-                      }
-
-                      // Ensure we have a valid RTCPeerConnection before proceeding
-                      if (!(peerConnection instanceof RTCPeerConnection)) {
-                        console.error(
-                          `Invalid peer connection type for ${senderId}, recreating connection`
-                        );
-                        // Try to recreate the connection
-                        let newConnection = createPeerConnection(
-                          senderId,
-                          roomId,
-                          false
-                        );
-                        if (!newConnection) {
-                          console.error(
-                            `Failed to recreate peer connection for ${senderId}`
-                          );
-                          return;
-                        }
-                        peerConnection = newConnection;
-                      }
-
-                      // Check if we're in a state where we can process the offer
-                      if (
-                        peerConnection.signalingState === "have-local-offer"
-                      ) {
-                        console.log(
-                          `Signaling state conflict with ${senderId}, resolving glare situation`
-                        );
-
-                        // Glare situation: both peers created an offer
-                        // Compare user IDs to determine who should accept and who should create a new offer
-                        if (user.uid > senderId) {
-                          console.log(
-                            `This client (${user.uid}) wins glare resolution, waiting for remote to process our offer`
-                          );
-                          return; // Let the other peer process our offer first
-                        } else {
-                          console.log(
-                            `Remote peer (${senderId}) wins glare resolution, rolling back our offer`
-                          );
-                          try {
-                            await peerConnection.setLocalDescription({
-                              type: "rollback",
-                            });
-                          } catch (err) {
-                            console.error(
-                              `Error rolling back local description:`,
-                              err
-                            );
-
-                            // If rollback fails, create a new connection
-                            try {
-                              peerConnection.close();
-                            } catch (closeErr) {
-                              console.error(
-                                `Error closing connection:`,
-                                closeErr
-                              );
-                            }
-
-                            delete peerConnections.current[senderId];
-                            const newConnection = createPeerConnection(
-                              senderId,
-                              roomId,
-                              false
-                            );
-
-                            if (newConnection) {
-                              peerConnection = newConnection;
-                            } else {
-                              console.error(
-                                `Failed to create peer connection for ${senderId}`
-                              );
-                              return;
-                            }
-                            if (!peerConnection) {
-                              console.error(
-                                `Failed to recreate peer connection for ${senderId}`
-                              );
-                              return;
-                            }
-                          }
-                        }
-                      } else if (peerConnection.signalingState !== "stable") {
-                        console.log(
-                          `Cannot process offer in current signaling state: ${peerConnection.signalingState}`
-                        );
-
-                        // If we're in a weird state, wait a bit and check again
-                        setTimeout(async () => {
-                          if (peerConnection.signalingState !== "stable") {
-                            console.log(
-                              `Still in unstable state (${peerConnection.signalingState}), resetting connection`
-                            );
-                            try {
-                              peerConnection.close();
-                            } catch (err) {
-                              console.error(
-                                `Error closing unstable connection:`,
-                                err
-                              );
-                            }
-
-                            delete peerConnections.current[senderId];
-                            const newPeerConnection = createPeerConnection(
-                              senderId,
-                              roomId,
-                              false
-                            );
-                            if (!newPeerConnection) {
-                              console.error(
-                                `Failed to recreate peer connection for ${senderId}`
-                              );
-                              return;
-                            }
-
-                            if (
-                              newPeerConnection instanceof RTCPeerConnection
-                            ) {
-                              processOffer(newPeerConnection, senderId, offer);
-                            }
-                          }
-                        }, 1000);
-                        return;
-                      }
-
-                      // Process the offer
-                      processOffer(peerConnection, senderId, offer);
-                    }
-                  }
-                );
-              }
-            }
-          );
-        }
+        spotlightRef.current =
+          parseSpotlight(snapshot.val(), currentRoom.createdBy) ?? null;
+        log.debug(`Spotlight changed to: ${spotlightRef.current}`);
       },
       (error) => {
-        console.error("Error in offers listener:", error);
-        setWebRTCError(
-          "Failed to process connection offers. Please try again."
-        );
+        log.error("Error in spotlight listener:", error);
       }
     );
-    offersUnsubscribeRef.current = offersUnsubscribe;
-
-    // Helper function to process an offer
-    const processOffer = async (
-      peerConnection: RTCPeerConnection | null,
-      senderId: string,
-      offer: any
-    ) => {
-      if (!peerConnection) {
-        console.error(
-          `Cannot process offer: Missing peer connection for ${senderId}`
-        );
-        return;
-      }
-      try {
-        // Set remote description and create answer
-        console.log(`Setting remote description for ${senderId}`);
-        await peerConnection.setRemoteDescription(
-          new RTCSessionDescription({
-            type: "offer",
-            sdp: offer.sdp,
-          })
-        );
-
-        console.log(`Creating answer for ${senderId}`);
-        const answer = await peerConnection.createAnswer();
-
-        console.log(
-          `Setting local description (answer) for ${senderId}`,
-          answer
-        );
-        await peerConnection.setLocalDescription(answer);
-
-        console.log(`Sending answer to ${senderId}`);
-        const answerRef = ref(
-          rtdb,
-          `rooms/${roomId}/answers/${user.uid}/${senderId}`
-        );
-        await set(answerRef, {
-          type: "answer",
-          sdp: peerConnection.localDescription?.sdp,
-        });
-      } catch (error) {
-        console.error(`Error processing offer from ${senderId}:`, error);
-        setWebRTCError(
-          "Failed to respond to connection offer. Please try again."
-        );
-      }
-    };
-
-    // Listen for answers
-    console.log("Setting up answers listener");
-    const answersRef = ref(rtdb, `rooms/${roomId}/answers`);
-    const answersUnsubscribe = onValue(
-      answersRef,
-      (snapshot) => {
-        if (snapshot.exists() && user) {
-          const answers = snapshot.val();
-          console.log("Received answers:", answers);
-
-          Object.entries(answers).forEach(
-            ([senderId, senderAnswers]: [string, any]) => {
-              Object.entries(senderAnswers).forEach(
-                async ([receiverId, answer]: [string, any]) => {
-                  if (receiverId === user.uid && answer) {
-                    console.log(`Received answer from ${senderId}:`, answer);
-                    const peerConnection = peerConnections.current[senderId];
-
-                    if (!peerConnection) {
-                      console.warn(
-                        `Received answer from ${senderId} but no peer connection exists`
-                      );
-                      return;
-                    }
-
-                    if (peerConnection.signalingState === "have-local-offer") {
-                      try {
-                        await peerConnection.setRemoteDescription(
-                          new RTCSessionDescription({
-                            type: "answer",
-                            sdp: answer.sdp,
-                          })
-                        );
-                        console.log(
-                          `Set remote description (answer) for ${senderId}`
-                        );
-
-                        // Remove the processed answer to avoid re-processing
-                        const processedAnswerRef = ref(
-                          rtdb,
-                          `rooms/${roomId}/answers/${senderId}/${receiverId}`
-                        );
-                        await remove(processedAnswerRef);
-                      } catch (error) {
-                        console.error(
-                          `Error setting remote description for ${senderId}:`,
-                          error
-                        );
-                        setWebRTCError(
-                          "Failed to establish connection. Please try again."
-                        );
-
-                        // If the error is serious, try to recreate the connection
-                        if (
-                          String(error).includes(
-                            "Failed to set remote answer sdp:"
-                          ) ||
-                          String(error).includes(
-                            "Failed to set remote description"
-                          )
-                        ) {
-                          try {
-                            console.log(
-                              `Recreating failed connection to ${senderId}`
-                            );
-                            peerConnection.close();
-                          } catch (closeErr) {
-                            console.error(
-                              `Error closing failed connection:`,
-                              closeErr
-                            );
-                          }
-
-                          delete peerConnections.current[senderId];
-                          const newPeerConnection = createPeerConnection(
-                            senderId,
-                            roomId,
-                            true
-                          );
-                          if (newPeerConnection) {
-                            console.log(
-                              `Successfully recreated connection to ${senderId}`
-                            );
-                          }
-                        }
-                      }
-                    } else {
-                      console.warn(
-                        `Skipping answer from ${senderId}, signalingState: ${peerConnection.signalingState}`
-                      );
-                    }
-                  }
-                }
-              );
-            }
-          );
-        }
-      },
-      (error) => {
-        console.error("Error in answers listener:", error);
-        setWebRTCError(
-          "Failed to process connection answers. Please try again."
-        );
-      }
-    );
-    answersUnsubscribeRef.current = answersUnsubscribe;
-
-    // Listen for ICE candidates
-    console.log("Setting up ICE candidates listener");
-    const candidatesRef = ref(rtdb, `rooms/${roomId}/candidates`);
-    const candidatesUnsubscribe = onValue(
-      candidatesRef,
-      (snapshot) => {
-        if (snapshot.exists() && user) {
-          const candidates = snapshot.val();
-
-          Object.entries(candidates).forEach(
-            ([senderId, senderCandidates]: [string, any]) => {
-              Object.entries(senderCandidates).forEach(
-                ([receiverId, receiverCandidates]: [string, any]) => {
-                  if (receiverId === user.uid) {
-                    const peerConnection = peerConnections.current[senderId];
-
-                    if (peerConnection) {
-                      Object.values(receiverCandidates).forEach(
-                        async (candidate: any) => {
-                          try {
-                            // Ensure connection is ready to receive candidates
-                            if (!peerConnection.remoteDescription) {
-                              console.log(
-                                `Remote description not set for ${senderId}, queuing ICE candidate`
-                              );
-                              return; // Skip for now, will be retried later
-                            }
-
-                            console.log(
-                              `Adding ICE candidate from ${senderId}`,
-                              candidate
-                            );
-                            await peerConnection.addIceCandidate(
-                              new RTCIceCandidate(candidate)
-                            );
-
-                            // Clean up processed candidate
-                            const candidateKeys =
-                              Object.keys(receiverCandidates);
-                            if (candidateKeys.length > 0) {
-                              const candidateKey = candidateKeys.find(
-                                (key) =>
-                                  JSON.stringify(receiverCandidates[key]) ===
-                                  JSON.stringify(candidate)
-                              );
-                              if (candidateKey) {
-                                const processedCandidateRef = ref(
-                                  rtdb,
-                                  `rooms/${roomId}/candidates/${senderId}/${receiverId}/${candidateKey}`
-                                );
-                                await remove(processedCandidateRef);
-                              }
-                            }
-                          } catch (error) {
-                            console.error(
-                              `Error adding ICE candidate from ${senderId}:`,
-                              error
-                            );
-
-                            // Don't show error message for minor ICE issues
-                            if (
-                              String(error).includes(
-                                "Cannot add ICE candidate"
-                              ) &&
-                              !String(error).includes("Connection failed")
-                            ) {
-                              console.log(`Non-critical ICE error: ${error}`);
-                            } else {
-                              setWebRTCError(
-                                "Connection issue. Try reconnecting if video doesn't appear."
-                              );
-                            }
-                          }
-                        }
-                      );
-                    }
-                  }
-                }
-              );
-            }
-          );
-        }
-      },
-      (error) => {
-        console.error("Error in ICE candidates listener:", error);
-        setWebRTCError(
-          "Failed to process connection candidates. Please try again."
-        );
-      }
-    );
-    candidatesUnsubscribeRef.current = candidatesUnsubscribe;
 
     // Set up connection check interval
     connectionCheckInterval.current = setInterval(() => {
       // Check if we have any connected peers
-      const connectedPeers = Object.values(peerConnections.current).filter(
+      const connections = getConnections();
+      const connectedPeers = connections.filter(
         (pc) =>
           pc.iceConnectionState === "connected" ||
           pc.iceConnectionState === "completed"
@@ -1913,9 +2902,9 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
 
       if (connectedPeers.length > 0) {
         setConnectionStatus("connected");
-      } else if (Object.keys(peerConnections.current).length > 0) {
+      } else if (connections.length > 0) {
         // We have peers but none are connected
-        const failedPeers = Object.values(peerConnections.current).filter(
+        const failedPeers = connections.filter(
           (pc) =>
             pc.iceConnectionState === "failed" ||
             pc.iceConnectionState === "disconnected"
@@ -1927,60 +2916,83 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           setConnectionStatus("connecting");
         }
       } else {
-        console.log("No peers connected, disconnecting...");
+        log.debug("No peers connected, disconnecting...");
         setConnectionStatus("disconnected");
       }
     }, 5000);
 
+    adaptationInterval.current = setInterval(
+      adaptSendingQuality,
+      ADAPTATION_INTERVAL
+    );
+    qualityInterval.current = setInterval(
+      updateNetworkQuality,
+      QUALITY_INTERVAL
+    );
+
     listenersSetupRef.current = true;
-    console.log("WebRTC listeners setup complete");
+    log.debug("WebRTC listeners setup complete");
   };
 
   // Clean up WebRTC listeners
   const cleanupWebRTCListeners = () => {
-    console.log("Cleaning up WebRTC listeners");
+    log.debug("Cleaning up WebRTC listeners");
 
     if (participantsUnsubscribeRef.current) {
       participantsUnsubscribeRef.current();
       participantsUnsubscribeRef.current = null;
     }
 
-    if (offersUnsubscribeRef.current) {
-      offersUnsubscribeRef.current();
-      offersUnsubscribeRef.current = null;
-    }
+    presenceUnsubscribeRef.current?.();
+    presenceUnsubscribeRef.current = null;
 
-    if (answersUnsubscribeRef.current) {
-      answersUnsubscribeRef.current();
-      answersUnsubscribeRef.current = null;
+    if (spotlightUnsubscribeRef.current) {
+      spotlightUnsubscribeRef.current();
+      spotlightUnsubscribeRef.current = null;
     }
+    spotlightRef.current = null;
 
-    if (candidatesUnsubscribeRef.current) {
-      candidatesUnsubscribeRef.current();
-      candidatesUnsubscribeRef.current = null;
-    }
+    Object.keys(signalingUnsubscribesRef.current).forEach(unsubscribeFromPeer);
 
     if (connectionCheckInterval.current) {
       clearInterval(connectionCheckInterval.current);
       connectionCheckInterval.current = null;
     }
 
+    if (adaptationInterval.current) {
+      clearInterval(adaptationInterval.current);
+      adaptationInterval.current = null;
+    }
+
+    if (qualityInterval.current) {
+      clearInterval(qualityInterval.current);
+      qualityInterval.current = null;
+    }
+    qualitySamplesRef.current = {};
+    setNetworkQuality({});
+    setIsLocalUplinkPoor(false);
+
     listenersSetupRef.current = false;
   };
 
   // Join a room
-  const joinRoom = async (roomId: string, currentRoom: Room | null) => {
-    console.log("Roomid here:", roomId);
+  const joinRoom = async (
+    roomId: string,
+    currentRoom: Room | null,
+    sessionId: string,
+    { displayName, signalingBackend }: JoinOptions = {}
+  ) => {
+    log.debug("Roomid here:", roomId);
     if (!user) {
       const error = "Cannot join room: User not authenticated";
-      console.error(error);
+      log.error(error);
       setWebRTCError(error);
       throw new Error(error);
     }
 
     // Prevent multiple join attempts
     if (joinAttemptedRef.current && currentRoomId === roomId) {
-      console.log("Already joining or joined this room");
+      log.debug("Already joining or joined this room");
       return;
     }
 
@@ -1988,7 +3000,7 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
     joinAttemptsRef.current += 1;
     if (joinAttemptsRef.current > 3) {
       const error = "Too many join attempts, aborting to prevent infinite loop";
-      console.error(error);
+      log.error(error);
       setWebRTCError(error);
       joinAttemptsRef.current = 0;
       throw new Error(error);
@@ -1998,34 +3010,68 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
     setWebRTCError(null);
     setConnectionStatus("connecting");
 
-    console.log(`WebRTC joining room: ${roomId}`);
+    log.debug(`WebRTC joining room: ${roomId}`);
 
     try {
       // First, close any existing peer connections and clear state
       Object.values(peerConnections.current).forEach((pc) => pc.close());
       peerConnections.current = {};
+      controlChannelsRef.current = {};
+      peerLayersRef.current = {};
+      adaptationRef.current = {};
+      negotiationRef.current = {};
+      pendingCandidatesRef.current = {};
+      appliedCandidatesRef.current = {};
+      requestedLayersRef.current = {};
       setPeers([]);
 
-      // Clean up any existing signaling data - must happen before initializing new connections
-      await cleanupSignalingData(roomId, user.uid);
+      // Every join is a new session, minted by the room context; we are
+      // addressed by it and signaling from earlier sessions is ignored
+      sessionIdRef.current = sessionId;
+      peerJoinedRef.current = {};
+      participantDetailsRef.current = {};
+
+      // Rooms choose between a mesh and the SFU when they are created
+      const topologySnapshot = await get(ref(rtdb, `rooms/${roomId}/topology`));
+      const topology = roomTopologySchema.safeParse(topologySnapshot.val());
+      topologyRef.current = topology.success ? topology.data : "mesh";
+      log.debug(`Room ${roomId} uses ${topologyRef.current} topology`);
+
+      // Swap in a signaling transport for this room; SFU rooms signal with
+      // the server instead
+      signalingRef.current?.close();
+      signalingRef.current = null;
+      disconnectFromSfu();
+      if (topologyRef.current === "mesh") {
+        signalingRef.current = withSignalingDiagnostics(
+          createSignalingTransport(roomId, sessionId, signalingBackend)
+        );
+
+        // Clean up any existing signaling data - must happen before initializing new connections
+        await signalingRef.current.reset();
+      }
+
+      // Get ICE servers before the first peer connection is created
+      await refreshIceConfiguration();
 
       // Initialize local stream if not already done
-      if (!localStream) {
-        console.log("Initializing local stream");
-        const stream = await initLocalStream();
+      let stream = localStream;
+      if (!stream) {
+        log.debug("Initializing local stream");
+        stream = await initLocalStream();
         if (!stream) {
           const error = "Failed to initialize local stream";
-          console.error(error);
+          log.error(error);
           setWebRTCError(error);
           joinAttemptedRef.current = false;
           throw new Error(error);
         }
       } else {
         // Re-enable tracks in case they were disabled
-        localStream.getVideoTracks().forEach((track) => {
+        stream.getVideoTracks().forEach((track) => {
           if (track) track.enabled = isVideoEnabled;
         });
-        localStream.getAudioTracks().forEach((track) => {
+        stream.getAudioTracks().forEach((track) => {
           if (track) track.enabled = isAudioEnabled;
         });
       }
@@ -2034,15 +3080,21 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
       setCurrentRoomId(roomId);
 
       // Add user to room participants - this will trigger the participant listener in other clients
-      console.log(`Adding user ${user.uid} to room participants`);
+      log.debug(`Adding session ${sessionId} to room participants`);
       const participantRef = ref(
         rtdb,
-        `rooms/${roomId}/participants/${user.uid}`
+        `rooms/${roomId}/participants/${sessionId}`
       );
-      await set(participantRef, {
-        displayName: user.displayName || "Anonymous",
-        joined: Date.now(),
-      });
+      await set(
+        participantRef,
+        participantSchema.parse({
+          uid: user.uid,
+          displayName: displayName || user.displayName || "Anonymous",
+          joined: Date.now(),
+          media: describeLocalMedia(stream),
+        })
+      );
+      participantWrittenRef.current = true;
 
       // Set up disconnect handler
       onDisconnect(participantRef).remove();
@@ -2052,31 +3104,39 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
       const snapshot = await get(roomParticipantsRef);
 
       // Set up peers array first before creating connections
+      const participants = snapshot.exists()
+        ? parseParticipants(snapshot.val())
+        : {};
       if (snapshot.exists()) {
-        const participants = snapshot.val();
-        console.log(
+        log.debug(
           `Found ${Object.keys(participants).length} participants in room`
         );
 
-        // Add peers to state first without creating connections
-        Object.entries(participants).forEach(
-          ([id, participant]: [string, any]) => {
-            if (id !== user.uid) {
-              setPeers((prevPeers) => {
-                if (!prevPeers.some((p) => p.id === id)) {
-                  return [
-                    ...prevPeers,
-                    {
-                      id,
-                      displayName: participant.displayName || "Anonymous",
-                    },
-                  ];
-                }
-                return prevPeers;
-              });
-            }
+        // Add peers to state first without creating connections. With
+        // presence from the signaling server, it lists them instead.
+        participantDetailsRef.current = participants;
+        const peersFromPresence = !!signalingRef.current?.subscribePresence;
+        Object.entries(participants).forEach(([id, participant]) => {
+          if (id !== sessionId) {
+            trackPeerSession(id, participant);
+            if (peersFromPresence) return;
+            setPeers((prevPeers) => {
+              if (!prevPeers.some((p) => p.id === id)) {
+                return [
+                  ...prevPeers,
+                  {
+                    id,
+                    uid: participant.uid,
+                    displayName: participant.displayName || "Anonymous",
+                    stream: sfuStreamsRef.current[id],
+                    media: participant.media,
+                  },
+                ];
+              }
+              return prevPeers;
+            });
           }
-        );
+        });
       }
 
       // Set up WebRTC listeners before creating connections
@@ -2085,128 +3145,31 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
       // Wait a moment for the user to be established in the room
       await new Promise((resolve) => setTimeout(resolve, 500));
 
-      // Now create connections to all participants
-      if (snapshot.exists()) {
-        const participants = snapshot.val();
-
+      // Now create connections to all participants. Offers are sent from
+      // onnegotiationneeded once the local tracks are attached.
+      if (topologyRef.current === "sfu") {
+        log.debug("Publishing to the SFU");
+        connectToSfu(roomId);
+      } else if (
+        snapshot.exists() &&
+        !signalingRef.current?.subscribePresence
+      ) {
         // Create peer connections to all participants except self
-        for (const [id, participant] of Object.entries(participants)) {
-          if (id !== user.uid) {
-            console.log(`Creating initial connection to participant: ${id}`);
-            // Create a small delay to ensure previous setup is complete
-            await new Promise((resolve) => setTimeout(resolve, 300));
-
-            const peerConnection = createPeerConnection(id, roomId, true);
-
-            if (peerConnection) {
-              try {
-                // Set up the icecandidate event handler before creating the offer
-                // (this should already be set in createPeerConnection but we're making sure)
-                peerConnection.onicecandidate = (event) => {
-                  if (event.candidate) {
-                    console.log(
-                      `Generated ICE candidate for peer ${id}:`,
-                      event.candidate
-                    );
-                    const candidateRef = ref(
-                      rtdb,
-                      `rooms/${roomId}/candidates/${user.uid}/${id}`
-                    );
-                    push(candidateRef, event.candidate.toJSON());
-                  }
-                };
-
-                console.log(`Creating offer for peer ${id} with options`);
-                const offerOptions = {
-                  offerToReceiveAudio: true,
-                  offerToReceiveVideo: true,
-                };
-
-                const offer = await peerConnection.createOffer();
-                console.log(`Offer created for peer ${id}`);
-                await peerConnection.setLocalDescription(offer);
-
-                // Allow a bit more time for the local description to be set properly
-                await new Promise((resolve) => setTimeout(resolve, 200));
-
-                if (peerConnection.localDescription) {
-                  // Send the offer to the remote peer
-                  const offerRef = ref(
-                    rtdb,
-                    `rooms/${roomId}/offers/${user.uid}/${id}`
-                  );
-                  await set(offerRef, {
-                    type: "offer",
-                    sdp: peerConnection.localDescription.sdp,
-                  });
-
-                  console.log(`Sent offer to participant ${id}`);
-                } else {
-                  console.error(`LocalDescription is null for peer ${id}`);
-                }
-              } catch (error) {
-                console.error(`Error creating/sending offer to ${id}:`, error);
-
-                // If there's an error with max-bundle, try again with a different configuration
-                if (String(error).includes("no BUNDLE group")) {
-                  console.log(
-                    `Retrying with modified configuration for peer ${id}`
-                  );
-                  try {
-                    // Close the problematic connection
-                    peerConnection.close();
-                    delete peerConnections.current[id];
-
-                    // Create a new connection with simpler configuration
-                    const simpleConfig = {
-                      iceServers: [{ urls: "stun:stun1.l.google.com:19302" }],
-                      bundlePolicy: "balanced" as RTCBundlePolicy,
-                    };
-
-                    const newConnection = new RTCPeerConnection(simpleConfig);
-                    peerConnections.current[id] = newConnection;
-
-                    // Add tracks from local stream
-                    if (localStream) {
-                      localStream.getTracks().forEach((track) => {
-                        newConnection.addTrack(track, localStream);
-                      });
-                    }
-
-                    // Create and send offer with the simpler connection
-                    const newOffer = await newConnection.createOffer();
-                    await newConnection.setLocalDescription(newOffer);
-
-                    const offerRef = ref(
-                      rtdb,
-                      `rooms/${roomId}/offers/${user.uid}/${id}`
-                    );
-                    await set(offerRef, {
-                      type: "offer",
-                      sdp: newConnection.localDescription?.sdp,
-                    });
-
-                    console.log(`Sent alternative offer to participant ${id}`);
-                  } catch (retryError) {
-                    console.error(`Failed retry with peer ${id}:`, retryError);
-                  }
-                }
-              }
-            } else {
-              console.error(`Failed to create peer connection for ${id}`);
+        for (const id of Object.keys(participants)) {
+          if (id !== sessionId && !peerConnections.current[id]) {
+            log.debug(`Creating initial connection to participant: ${id}`);
+            if (!createPeerConnection(id, roomId)) {
+              log.error(`Failed to create peer connection for ${id}`);
             }
-
-            // Add a small delay between connection creations to avoid race conditions
-            await new Promise((resolve) => setTimeout(resolve, 500));
           }
         }
       }
 
-      console.log(`Successfully joined WebRTC room: ${roomId}`);
+      log.info(`Successfully joined WebRTC room: ${roomId}`);
       setConnectionStatus("connected");
       joinAttemptsRef.current = 0;
     } catch (error) {
-      console.error("Error in WebRTC joinRoom:", error);
+      log.error("Error in WebRTC joinRoom:", error);
       setWebRTCError(
         error instanceof Error ? error.message : "Failed to join room"
       );
@@ -2221,16 +3184,27 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
   const leaveRoom = async () => {
     if (!currentRoomId || !user) return;
 
-    console.log(`Leaving WebRTC room: ${currentRoomId}`);
+    log.debug(`Leaving WebRTC room: ${currentRoomId}`);
 
     try {
-      // Clean up signaling data first to prevent race conditions
-      await cleanupSignalingData(currentRoomId, user.uid);
+      // Let peers know we are hanging up, then clean up signaling data to prevent race conditions
+      const signaling = signalingRef.current;
+      if (signaling) {
+        await Promise.all(
+          Object.keys(peerConnections.current).map((peerId) =>
+            signaling.sendBye(peerId).catch((err) => {
+              log.error(`Error sending bye to ${peerId}:`, err);
+            })
+          )
+        );
+        await signaling.reset();
+      }
 
-      // Remove user from room
+      // Remove this session from the room
+      participantWrittenRef.current = false;
       const participantRef = ref(
         rtdb,
-        `rooms/${currentRoomId}/participants/${user.uid}`
+        `rooms/${currentRoomId}/participants/${sessionIdRef.current}`
       );
       await remove(participantRef);
 
@@ -2242,13 +3216,29 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         try {
           pc.close();
         } catch (err) {
-          console.error("Error closing peer connection:", err);
+          log.error("Error closing peer connection:", err);
         }
       });
 
       peerConnections.current = {};
+      controlChannelsRef.current = {};
+      peerLayersRef.current = {};
+      adaptationRef.current = {};
+      negotiationRef.current = {};
+      pendingCandidatesRef.current = {};
+      appliedCandidatesRef.current = {};
+      requestedLayersRef.current = {};
       setPeers([]);
 
+      signalingRef.current?.close();
+      signalingRef.current = null;
+      disconnectFromSfu();
+
+      if (iceRefreshTimerRef.current) {
+        clearTimeout(iceRefreshTimerRef.current);
+        iceRefreshTimerRef.current = null;
+      }
+
       // Stop screen sharing if active
       if (isScreenSharing && screenShareStream.current) {
         screenShareStream.current.getTracks().forEach((track) => track.stop());
@@ -2260,19 +3250,20 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         try {
           mediaRecorder.current.stop();
         } catch (err) {
-          console.error("Error stopping media recorder:", err);
+          log.error("Error stopping media recorder:", err);
         }
       }
 
       // Final state updates
+      sessionIdRef.current = null;
       setCurrentRoomId(null);
       setConnectionStatus("disconnected");
       joinAttemptedRef.current = false;
       joinAttemptsRef.current = 0;
 
-      console.log("WebRTC room left successfully");
+      log.debug("WebRTC room left successfully");
     } catch (error) {
-      console.error("Error while leaving room:", error);
+      log.error("Error while leaving room:", error);
       // Still reset state even if there's an error
       setCurrentRoomId(null);
       setConnectionStatus("disconnected");
@@ -2284,11 +3275,12 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
   // Clean up on unmount
   useEffect(() => {
     return () => {
-      console.log("Cleaning up WebRTC provider");
+      log.debug("Cleaning up WebRTC provider");
 
       if (localStream) {
         localStream.getTracks().forEach((track) => track.stop());
       }
+      noiseGateRef.current?.close();
 
       if (screenShareStream.current) {
         screenShareStream.current.getTracks().forEach((track) => track.stop());
@@ -2298,15 +3290,21 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
         pc.close();
       });
 
-      if (currentRoomId && user) {
+      if (currentRoomId && sessionIdRef.current) {
         const participantRef = ref(
           rtdb,
-          `rooms/${currentRoomId}/participants/${user.uid}`
+          `rooms/${currentRoomId}/participants/${sessionIdRef.current}`
         );
         remove(participantRef);
       }
 
       cleanupWebRTCListeners();
+      signalingRef.current?.close();
+      sfuClientRef.current?.close();
+
+      if (iceRefreshTimerRef.current) {
+        clearTimeout(iceRefreshTimerRef.current);
+      }
     };
   }, []);
 
@@ -2336,12 +3334,26 @@ export const WebRTCProvider = ({ children }: { children: React.ReactNode }) => {
           hasAudio,
           videoDevices,
           audioDevices,
+          audioOutputDevices,
           selectedVideoDevice,
           selectedAudioDevice,
+          selectedAudioOutputDevice,
         },
         setSelectedVideoDevice,
         setSelectedAudioDevice,
+        setSelectedAudioOutputDevice,
+        audioProcessing,
+        setAudioProcessing,
         reconnectPeers,
+        requestVideoLayer,
+        isDataSaverEnabled,
+        setDataSaverEnabled,
+        getPeerStats,
+        networkQuality,
+        isLocalUplinkPoor,
+        downloadDiagnostics,
+        speakingPeerIds,
+        activeSpeakerId,
         connectionStatus,
       }}
     >
@@ -0,0 +1,144 @@
+// Speaking detection for calls. Each stream's audio goes through an
+// AnalyserNode, and levels are smoothed so a single loud frame or a short
+// pause between words does not flip anyone's speaking state.
+
+export const AUDIO_LEVEL_INTERVAL = 100;
+
+// RMS level, 0 to 1, above which someone counts as speaking
+const SPEAKING_THRESHOLD = 0.02;
+// Weight of each new sample in the smoothed level
+const SMOOTHING = 0.3;
+// How long someone still counts as speaking after going quiet
+const SPEAKING_HOLD = 600;
+// How long a new speaker must be loudest before becoming the dominant one
+const DOMINANT_SWITCH_DELAY = 1000;
+
+export type AudioLevelSample = {
+  speaking: string[];
+  // Loudest recent speaker; kept through silences until someone else talks
+  dominant: string | null;
+};
+
+type MonitoredStream = {
+  trackId: string;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  samples: Float32Array;
+  level: number;
+  lastSpokeAt: number;
+  canBeDominant: boolean;
+};
+
+export class AudioLevelMonitor {
+  private context: AudioContext | null = null;
+  private streams = new Map<string, MonitoredStream>();
+  private dominant: string | null = null;
+  private candidate: string | null = null;
+  private candidateSince = 0;
+
+  // Start monitoring a stream, or pick up a replaced audio track. Streams
+  // without audio are not monitored.
+  setStream(id: string, stream: MediaStream, canBeDominant = true) {
+    const track = stream.getAudioTracks()[0];
+    const existing = this.streams.get(id);
+    if (existing && existing.trackId === track?.id) {
+      existing.canBeDominant = canBeDominant;
+      return;
+    }
+
+    this.remove(id);
+    if (!track) return;
+
+    if (!this.context) {
+      this.context = new AudioContext();
+    }
+    // Created outside a user gesture the context starts suspended
+    this.context.resume().catch(() => undefined);
+
+    const source = this.context.createMediaStreamSource(
+      new MediaStream([track])
+    );
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = 512;
+    // Only analysed, never played; remote audio plays through its tile
+    source.connect(analyser);
+
+    this.streams.set(id, {
+      trackId: track.id,
+      source,
+      analyser,
+      samples: new Float32Array(analyser.fftSize),
+      level: 0,
+      lastSpokeAt: 0,
+      canBeDominant,
+    });
+  }
+
+  remove(id: string) {
+    const monitored = this.streams.get(id);
+    if (!monitored) return;
+    monitored.source.disconnect();
+    this.streams.delete(id);
+    if (this.dominant === id) this.dominant = null;
+    if (this.candidate === id) this.candidate = null;
+  }
+
+  // Stop monitoring every stream not in ids
+  retain(ids: string[]) {
+    Array.from(this.streams.keys()).forEach((id) => {
+      if (!ids.includes(id)) this.remove(id);
+    });
+  }
+
+  sample(now = Date.now()): AudioLevelSample {
+    const speaking: string[] = [];
+    let loudest: string | null = null;
+    let loudestLevel = 0;
+
+    this.streams.forEach((monitored, id) => {
+      monitored.analyser.getFloatTimeDomainData(monitored.samples);
+      let sum = 0;
+      monitored.samples.forEach((value) => {
+        sum += value * value;
+      });
+      const rms = Math.sqrt(sum / monitored.samples.length);
+      monitored.level = monitored.level * (1 - SMOOTHING) + rms * SMOOTHING;
+
+      if (monitored.level > SPEAKING_THRESHOLD) {
+        monitored.lastSpokeAt = now;
+      }
+      if (now - monitored.lastSpokeAt < SPEAKING_HOLD) {
+        speaking.push(id);
+        if (monitored.canBeDominant && monitored.level > loudestLevel) {
+          loudest = id;
+          loudestLevel = monitored.level;
+        }
+      }
+    });
+
+    // Switch only once a new speaker has been loudest for a while, so the
+    // dominant speaker does not flicker during crosstalk
+    if (loudest === null || loudest === this.dominant) {
+      this.candidate = null;
+    } else if (this.dominant === null) {
+      this.dominant = loudest;
+    } else if (loudest !== this.candidate) {
+      this.candidate = loudest;
+      this.candidateSince = now;
+    } else if (now - this.candidateSince >= DOMINANT_SWITCH_DELAY) {
+      this.dominant = loudest;
+      this.candidate = null;
+    }
+
+    return { speaking, dominant: this.dominant };
+  }
+
+  close() {
+    this.streams.forEach((monitored) => monitored.source.disconnect());
+    this.streams.clear();
+    this.dominant = null;
+    this.candidate = null;
+    this.context?.close().catch(() => undefined);
+    this.context = null;
+  }
+}
@@ -0,0 +1,59 @@
+// Speaker selection goes through HTMLMediaElement.setSinkId, which Safari and
+// older Firefox versions do not have. There remote audio always plays through
+// the system default output.
+import { createLogger } from "./logger";
+
+const log = createLogger("webrtc");
+
+export const isAudioOutputSelectionSupported = () =>
+  typeof HTMLMediaElement !== "undefined" &&
+  "setSinkId" in HTMLMediaElement.prototype;
+
+// Route an element's audio to a speaker; null means the system default
+export const setAudioOutput = async (
+  element: HTMLMediaElement,
+  deviceId: string | null
+) => {
+  if (
+    !isAudioOutputSelectionSupported() ||
+    element.sinkId === (deviceId ?? "")
+  ) {
+    return;
+  }
+
+  try {
+    await element.setSinkId(deviceId ?? "");
+  } catch (error) {
+    log.error("Error setting audio output device:", error);
+  }
+};
+
+// Play a short tone through a speaker. The tone goes through a media element
+// rather than straight to the AudioContext destination, so it uses the same
+// setSinkId path as remote audio.
+export const playTestSound = async (
+  deviceId: string | null,
+  duration = 1000
+) => {
+  const audioContext = new AudioContext();
+  const audio = new Audio();
+  try {
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    const destination = audioContext.createMediaStreamDestination();
+    oscillator.frequency.value = 440;
+    gain.gain.value = 0.2;
+    oscillator.connect(gain).connect(destination);
+
+    audio.srcObject = destination.stream;
+    await setAudioOutput(audio, deviceId);
+    oscillator.start();
+    await audio.play();
+    await new Promise((resolve) => setTimeout(resolve, duration));
+    oscillator.stop();
+  } finally {
+    audio.pause();
+    audio.srcObject = null;
+    await audioContext.close();
+  }
+};
@@ -0,0 +1,216 @@
+// Microphone processing for calls. The browser's own echo cancellation, noise
+// suppression and gain control are requested as capture constraints. The
+// noise gate runs on top of them in an AudioWorklet and produces a new track,
+// which is sent in place of the microphone's.
+import { createLogger } from "./logger";
+
+const log = createLogger("webrtc");
+
+export type AudioProcessingSettings = {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  noiseGate: boolean;
+};
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  noiseGate: false,
+};
+
+// Where the settings picked in this browser are saved
+export const AUDIO_PROCESSING_STORAGE_KEY = "webrtc:audioProcessing";
+
+// Settings saved as JSON; missing or malformed fields keep their default
+export const parseAudioProcessingSettings = (
+  value: string | null
+): AudioProcessingSettings => {
+  let saved: unknown = null;
+  try {
+    saved = value ? JSON.parse(value) : null;
+  } catch (error) {
+    log.error("Error parsing audio processing settings:", error);
+  }
+  const settings = { ...DEFAULT_AUDIO_PROCESSING };
+  if (saved && typeof saved === "object") {
+    (Object.keys(settings) as (keyof AudioProcessingSettings)[]).forEach(
+      (key) => {
+        const savedValue = (saved as Record<string, unknown>)[key];
+        if (typeof savedValue === "boolean") settings[key] = savedValue;
+      }
+    );
+  }
+  return settings;
+};
+
+// Constraints for the processing the browser does while capturing
+export const getAudioProcessingConstraints = (
+  settings: AudioProcessingSettings
+): MediaTrackConstraints => ({
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+});
+
+// Whether changing from one setting to the other needs the microphone to be
+// captured again; the browser only applies its processing at capture
+export const needsRecapture = (
+  from: AudioProcessingSettings,
+  to: AudioProcessingSettings
+) =>
+  from.echoCancellation !== to.echoCancellation ||
+  from.noiseSuppression !== to.noiseSuppression ||
+  from.autoGainControl !== to.autoGainControl;
+
+export const isNoiseGateSupported = () =>
+  typeof AudioContext !== "undefined" &&
+  typeof AudioWorkletNode !== "undefined";
+
+// RMS level, 0 to 1, above which the gate opens
+const GATE_THRESHOLD = 0.015;
+// How long the gate stays open after the level drops, in seconds
+const GATE_HOLD = 0.25;
+// Time constants for opening and closing, in seconds
+const GATE_ATTACK = 0.005;
+const GATE_RELEASE = 0.08;
+
+// Runs on the audio thread, so the gate keeps working while the tab is in the
+// background and timers are throttled
+const NOISE_GATE_PROCESSOR = `
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { threshold, hold, attack, release } = options.processorOptions;
+    this.threshold = threshold;
+    this.holdSamples = hold * sampleRate;
+    this.attack = 1 - Math.exp(-1 / (attack * sampleRate));
+    this.release = 1 - Math.exp(-1 / (release * sampleRate));
+    this.heldFor = 0;
+    this.gain = 0;
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    const frames = input[0].length;
+    let sum = 0;
+    for (const channel of input) {
+      for (let i = 0; i < frames; i++) sum += channel[i] * channel[i];
+    }
+    const rms = Math.sqrt(sum / (frames * input.length));
+    this.heldFor =
+      rms > this.threshold
+        ? this.holdSamples
+        : Math.max(0, this.heldFor - frames);
+
+    const target = this.heldFor > 0 ? 1 : 0;
+    const rate = target > this.gain ? this.attack : this.release;
+    let gain = this.gain;
+    for (let i = 0; i < frames; i++) {
+      gain += (target - gain) * rate;
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] = (input[c] || input[0])[i] * gain;
+      }
+    }
+    this.gain = gain;
+    return true;
+  }
+}
+
+registerProcessor("noise-gate", NoiseGateProcessor);
+`;
+
+// Silences the microphone between words, cutting out keyboard noise and room
+// hum that the browser's suppression lets through. The output track stays the
+// same while the input changes, so switching microphones needs no new sender
+// track.
+export class NoiseGate {
+  private source: MediaStreamAudioSourceNode | null = null;
+  private inputTrack: MediaStreamTrack | null = null;
+
+  private constructor(
+    private context: AudioContext,
+    private node: AudioWorkletNode,
+    private destination: MediaStreamAudioDestinationNode
+  ) {}
+
+  static async create(input: MediaStreamTrack) {
+    const context = new AudioContext();
+    try {
+      const moduleUrl = URL.createObjectURL(
+        new Blob([NOISE_GATE_PROCESSOR], { type: "application/javascript" })
+      );
+      try {
+        await context.audioWorklet.addModule(moduleUrl);
+      } finally {
+        URL.revokeObjectURL(moduleUrl);
+      }
+
+      const node = new AudioWorkletNode(context, "noise-gate", {
+        processorOptions: {
+          threshold: GATE_THRESHOLD,
+          hold: GATE_HOLD,
+          attack: GATE_ATTACK,
+          release: GATE_RELEASE,
+        },
+      });
+      const destination = context.createMediaStreamDestination();
+      node.connect(destination);
+
+      const gate = new NoiseGate(context, node, destination);
+      gate.setInput(input);
+      // Created outside a user gesture the context starts suspended
+      context.resume().catch(() => undefined);
+      return gate;
+    } catch (error) {
+      await context.close().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // Gated audio; this is the track to send
+  get track() {
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  // Microphone track being gated
+  get input() {
+    return this.inputTrack;
+  }
+
+  // Gate another microphone track. The previous one is stopped.
+  setInput(track: MediaStreamTrack) {
+    const previous = this.inputTrack;
+    this.source?.disconnect();
+    this.source = this.context.createMediaStreamSource(
+      new MediaStream([track])
+    );
+    this.source.connect(this.node);
+    this.inputTrack = track;
+    if (previous && previous !== track) {
+      previous.stop();
+    }
+    log.debug(`Noise gate input set to ${track.label}`);
+  }
+
+  // Stop gating but leave the microphone track running, to be sent as is
+  release() {
+    this.inputTrack = null;
+    this.close();
+  }
+
+  // Stop the gated track and the microphone behind it
+  close() {
+    this.source?.disconnect();
+    this.source = null;
+    this.node.disconnect();
+    this.track?.stop();
+    this.inputTrack?.stop();
+    this.inputTrack = null;
+    this.context.close().catch(() => undefined);
+  }
+}
@@ -0,0 +1,149 @@
+// Bandwidth adaptation for the video we send. Every few seconds the provider
+// samples getStats() on each sending connection and moves one step down the
+// ladder when the path is congested, or one step back up after it has looked
+// healthy for a while.
+import { VIDEO_LAYERS, type VideoLayer } from "./simulcast";
+
+export type QualityStep = {
+  maxBitrate: number;
+  scaleResolutionDownBy: number;
+  maxFramerate: number;
+};
+
+export const QUALITY_STEPS: QualityStep[] = [
+  { maxBitrate: 1_500_000, scaleResolutionDownBy: 1, maxFramerate: 30 },
+  { maxBitrate: 900_000, scaleResolutionDownBy: 1.5, maxFramerate: 30 },
+  { maxBitrate: 500_000, scaleResolutionDownBy: 2, maxFramerate: 24 },
+  { maxBitrate: 250_000, scaleResolutionDownBy: 3, maxFramerate: 15 },
+  { maxBitrate: 120_000, scaleResolutionDownBy: 4, maxFramerate: 10 },
+];
+
+// Data saver never goes above this step
+export const DATA_SAVER_STEP = 3;
+
+export const ADAPTATION_INTERVAL = 2000;
+
+// Consecutive healthy samples needed before stepping back up
+const SAMPLES_BEFORE_UPGRADE = 3;
+
+export type SenderStats = {
+  // Bits per second the congestion controller thinks we can send
+  availableOutgoingBitrate?: number;
+  // Fraction of video packets the far end reported lost, 0 to 1
+  packetLoss: number;
+  // Seconds
+  roundTripTime?: number;
+};
+
+export type AdaptationState = {
+  step: number;
+  healthySamples: number;
+};
+
+export const initialAdaptationState = (minStep = 0): AdaptationState => ({
+  step: minStep,
+  healthySamples: 0,
+});
+
+export const readSenderStats = (report: RTCStatsReport): SenderStats => {
+  const stats: SenderStats = { packetLoss: 0 };
+
+  report.forEach((entry) => {
+    if (entry.type === "candidate-pair" && entry.nominated) {
+      if (typeof entry.availableOutgoingBitrate === "number") {
+        stats.availableOutgoingBitrate = entry.availableOutgoingBitrate;
+      }
+      if (typeof entry.currentRoundTripTime === "number") {
+        stats.roundTripTime = entry.currentRoundTripTime;
+      }
+    } else if (entry.type === "remote-inbound-rtp" && entry.kind === "video") {
+      // Simulcast reports one entry per layer; the worst one counts
+      if (typeof entry.fractionLost === "number") {
+        stats.packetLoss = Math.max(stats.packetLoss, entry.fractionLost);
+      }
+      if (
+        typeof entry.roundTripTime === "number" &&
+        stats.roundTripTime === undefined
+      ) {
+        stats.roundTripTime = entry.roundTripTime;
+      }
+    }
+  });
+
+  return stats;
+};
+
+// Next position on the ladder given the latest sample. minStep is the
+// highest quality allowed, e.g. DATA_SAVER_STEP when data saver is on.
+export const adaptQuality = (
+  state: AdaptationState,
+  stats: SenderStats,
+  minStep = 0
+): AdaptationState => {
+  const lastStep = QUALITY_STEPS.length - 1;
+  const current = Math.max(state.step, minStep);
+  const { availableOutgoingBitrate, packetLoss, roundTripTime = 0 } = stats;
+
+  const congested =
+    packetLoss > 0.08 ||
+    roundTripTime > 0.4 ||
+    (availableOutgoingBitrate !== undefined &&
+      availableOutgoingBitrate < QUALITY_STEPS[current].maxBitrate * 0.8);
+  if (congested) {
+    return { step: Math.min(current + 1, lastStep), healthySamples: 0 };
+  }
+
+  const better = QUALITY_STEPS[current - 1];
+  const healthy =
+    better &&
+    current > minStep &&
+    packetLoss < 0.02 &&
+    roundTripTime < 0.25 &&
+    (availableOutgoingBitrate === undefined ||
+      availableOutgoingBitrate > better.maxBitrate * 1.2);
+  if (!healthy) {
+    return { step: current, healthySamples: 0 };
+  }
+
+  const healthySamples = state.healthySamples + 1;
+  if (healthySamples >= SAMPLES_BEFORE_UPGRADE) {
+    return { step: current - 1, healthySamples: 0 };
+  }
+  return { step: current, healthySamples };
+};
+
+// Apply a quality step to a sender's encodings. Simulcast encodings keep their
+// own scale and switch off layers the step cannot afford; a single encoding
+// takes the lower of the step and the layer its receiver asked for.
+export const applyQualityStep = (
+  encodings: RTCRtpEncodingParameters[],
+  step: number,
+  requestedLayer: VideoLayer = "high"
+) => {
+  const quality = QUALITY_STEPS[step] ?? QUALITY_STEPS[0];
+
+  if (encodings.length > 1) {
+    encodings.forEach((encoding) => {
+      const layer = Object.values(VIDEO_LAYERS).find(
+        (candidate) => candidate.rid === encoding.rid
+      );
+      if (!layer) return;
+      encoding.active =
+        layer.rid === VIDEO_LAYERS.low.rid ||
+        layer.maxBitrate <= quality.maxBitrate;
+      encoding.maxBitrate = Math.min(layer.maxBitrate, quality.maxBitrate);
+      encoding.maxFramerate = quality.maxFramerate;
+    });
+    return;
+  }
+
+  const [encoding] = encodings;
+  if (!encoding) return;
+  const layer = VIDEO_LAYERS[requestedLayer];
+  encoding.scaleResolutionDownBy = Math.max(
+    layer.scaleResolutionDownBy,
+    quality.scaleResolutionDownBy
+  );
+  encoding.maxBitrate = Math.min(layer.maxBitrate, quality.maxBitrate);
+  encoding.maxFramerate = quality.maxFramerate;
+};
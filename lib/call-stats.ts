@@ -0,0 +1,191 @@
+// Turns raw getStats() reports into the per-peer numbers shown in the call
+// statistics panel and behind the network quality indicators. Bitrates and
+// loss are rates, so each sample is computed against the totals of the
+// previous one.
+
+type StatsTotals = {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+};
+
+export type CallStatsSample = {
+  timestamp: number;
+  // Kilobits per second
+  inboundBitrate: number;
+  outboundBitrate: number;
+  inboundResolution: string | null;
+  outboundResolution: string | null;
+  inboundFps: number | null;
+  outboundFps: number | null;
+  // Percent of inbound packets lost since the previous sample
+  packetLoss: number;
+  // Percent of our packets the far end reports losing
+  outboundPacketLoss: number;
+  // Kilobits per second the congestion controller thinks we can send
+  availableOutgoingBitrate: number | null;
+  // Milliseconds
+  jitter: number | null;
+  roundTripTime: number | null;
+  // Local and remote type of the selected candidate pair, e.g. "srflx/host"
+  candidateType: string | null;
+  codec: string | null;
+  totals: StatsTotals;
+};
+
+// Stats for one remote peer, or for the SFU connections as a whole
+export type PeerStatsReport = {
+  peerId: string;
+  reports: RTCStatsReport[];
+};
+
+const codecName = (report: RTCStatsReport, codecId?: string) => {
+  const mimeType: string | undefined = codecId
+    ? report.get(codecId)?.mimeType
+    : undefined;
+  return mimeType ? mimeType.split("/")[1] : null;
+};
+
+const resolution = (
+  entry: RTCInboundRtpStreamStats | RTCOutboundRtpStreamStats
+) =>
+  entry.frameWidth && entry.frameHeight
+    ? `${entry.frameWidth}x${entry.frameHeight}`
+    : null;
+
+const selectedCandidatePair = (
+  report: RTCStatsReport
+): RTCIceCandidatePairStats | null => {
+  let pair: RTCIceCandidatePairStats | null = null;
+  report.forEach((entry) => {
+    if (entry.type === "transport" && entry.selectedCandidatePairId) {
+      pair = report.get(entry.selectedCandidatePairId) ?? pair;
+    }
+  });
+  if (pair) return pair;
+
+  // Firefox has no transport stats; fall back to the nominated pair
+  report.forEach((entry) => {
+    if (
+      entry.type === "candidate-pair" &&
+      entry.nominated &&
+      entry.state === "succeeded"
+    ) {
+      pair = entry;
+    }
+  });
+  return pair;
+};
+
+export const summarizeStats = (
+  reports: RTCStatsReport[],
+  previous?: CallStatsSample
+): CallStatsSample => {
+  const sample: CallStatsSample = {
+    timestamp: Date.now(),
+    inboundBitrate: 0,
+    outboundBitrate: 0,
+    inboundResolution: null,
+    outboundResolution: null,
+    inboundFps: null,
+    outboundFps: null,
+    packetLoss: 0,
+    outboundPacketLoss: 0,
+    availableOutgoingBitrate: null,
+    jitter: null,
+    roundTripTime: null,
+    candidateType: null,
+    codec: null,
+    totals: {
+      timestamp: Date.now(),
+      bytesReceived: 0,
+      bytesSent: 0,
+      packetsReceived: 0,
+      packetsLost: 0,
+    },
+  };
+  // Simulcast sends several encodings; report the largest one
+  let outboundPixels = 0;
+
+  reports.forEach((report) => {
+    report.forEach((entry) => {
+      if (entry.type === "inbound-rtp") {
+        sample.totals.bytesReceived += entry.bytesReceived ?? 0;
+        sample.totals.packetsReceived += entry.packetsReceived ?? 0;
+        sample.totals.packetsLost += entry.packetsLost ?? 0;
+        if (typeof entry.jitter === "number") {
+          sample.jitter = Math.max(sample.jitter ?? 0, entry.jitter * 1000);
+        }
+        if (entry.kind === "video") {
+          sample.inboundResolution =
+            resolution(entry) ?? sample.inboundResolution;
+          sample.inboundFps = entry.framesPerSecond ?? sample.inboundFps;
+          sample.codec = codecName(report, entry.codecId) ?? sample.codec;
+        }
+      } else if (entry.type === "outbound-rtp") {
+        sample.totals.bytesSent += entry.bytesSent ?? 0;
+        const pixels = (entry.frameWidth ?? 0) * (entry.frameHeight ?? 0);
+        if (entry.kind === "video" && pixels >= outboundPixels) {
+          outboundPixels = pixels;
+          sample.outboundResolution = resolution(entry);
+          sample.outboundFps = entry.framesPerSecond ?? null;
+          sample.codec ??= codecName(report, entry.codecId);
+        }
+      } else if (entry.type === "remote-inbound-rtp") {
+        if (typeof entry.fractionLost === "number") {
+          sample.outboundPacketLoss = Math.max(
+            sample.outboundPacketLoss,
+            entry.fractionLost * 100
+          );
+        }
+        if (
+          typeof entry.roundTripTime === "number" &&
+          sample.roundTripTime === null
+        ) {
+          sample.roundTripTime = entry.roundTripTime * 1000;
+        }
+      }
+    });
+
+    const pair = selectedCandidatePair(report);
+    if (pair) {
+      if (typeof pair.currentRoundTripTime === "number") {
+        sample.roundTripTime = pair.currentRoundTripTime * 1000;
+      }
+      if (typeof pair.availableOutgoingBitrate === "number") {
+        sample.availableOutgoingBitrate = pair.availableOutgoingBitrate / 1000;
+      }
+      const local = report.get(pair.localCandidateId)?.candidateType;
+      const remote = report.get(pair.remoteCandidateId)?.candidateType;
+      if (local && remote) {
+        sample.candidateType = `${local}/${remote}`;
+      }
+    }
+  });
+
+  if (previous) {
+    const elapsed = sample.totals.timestamp - previous.totals.timestamp;
+    if (elapsed > 0) {
+      // Bits per millisecond are kilobits per second
+      sample.inboundBitrate = Math.max(
+        0,
+        ((sample.totals.bytesReceived - previous.totals.bytesReceived) * 8) /
+          elapsed
+      );
+      sample.outboundBitrate = Math.max(
+        0,
+        ((sample.totals.bytesSent - previous.totals.bytesSent) * 8) / elapsed
+      );
+    }
+    const lost = sample.totals.packetsLost - previous.totals.packetsLost;
+    const received =
+      sample.totals.packetsReceived - previous.totals.packetsReceived;
+    if (lost > 0 && lost + received > 0) {
+      sample.packetLoss = (lost / (lost + received)) * 100;
+    }
+  }
+
+  return sample;
+};
@@ -0,0 +1,187 @@
+// Network checks for the pre-call test page. Gathering candidates against the
+// configured ICE servers shows which transports get out of this network, and
+// a loopback connection shows how fast media can flow.
+import { createLogger } from "./logger";
+
+const log = createLogger("webrtc");
+
+export type IceCandidateSummary = {
+  type: string;
+  protocol: string;
+  address: string | null;
+  relayProtocol?: string;
+};
+
+export type IceConnectivityResult = {
+  // A STUN server answered over UDP, or TURN relays over UDP
+  udp: boolean;
+  // TURN relays over TCP or TLS, which gets through UDP-blocking firewalls
+  tcp: boolean;
+  relay: boolean;
+  candidates: IceCandidateSummary[];
+};
+
+export type LoopbackResult = {
+  // Kilobits per second received over the loopback connection
+  bitrate: number;
+  // Local and remote candidate types of the pair that was used
+  route: string | null;
+};
+
+const GATHERING_TIMEOUT = 10_000;
+
+export const testIceConnectivity = async (
+  configuration: RTCConfiguration
+): Promise<IceConnectivityResult> => {
+  const pc = new RTCPeerConnection(configuration);
+  const candidates: IceCandidateSummary[] = [];
+
+  try {
+    // A data channel gives the offer something to gather candidates for
+    pc.createDataChannel("test");
+
+    const gathered = new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, GATHERING_TIMEOUT);
+      pc.onicecandidate = (event) => {
+        if (!event.candidate) {
+          clearTimeout(timer);
+          resolve();
+          return;
+        }
+        const candidate = event.candidate as RTCIceCandidate & {
+          relayProtocol?: string;
+        };
+        candidates.push({
+          type: candidate.type ?? "unknown",
+          protocol: candidate.protocol ?? "unknown",
+          address: candidate.address,
+          relayProtocol: candidate.relayProtocol,
+        });
+      };
+    });
+
+    await pc.setLocalDescription(await pc.createOffer());
+    await gathered;
+  } finally {
+    pc.close();
+  }
+
+  const relays = candidates.filter((candidate) => candidate.type === "relay");
+  const result = {
+    udp:
+      candidates.some(
+        (candidate) =>
+          candidate.type === "srflx" && candidate.protocol === "udp"
+      ) ||
+      relays.some((candidate) => (candidate.relayProtocol ?? "udp") === "udp"),
+    tcp: relays.some(
+      (candidate) =>
+        candidate.relayProtocol === "tcp" || candidate.relayProtocol === "tls"
+    ),
+    relay: relays.length > 0,
+    candidates,
+  };
+  log.debug("ICE connectivity test finished:", result);
+  return result;
+};
+
+const waitForGathering = (pc: RTCPeerConnection) =>
+  new Promise<void>((resolve) => {
+    if (pc.iceGatheringState === "complete") {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(resolve, GATHERING_TIMEOUT);
+    pc.onicegatheringstatechange = () => {
+      if (pc.iceGatheringState === "complete") {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+  });
+
+// May be called after the connection is already up
+const waitForConnection = (pc: RTCPeerConnection) =>
+  new Promise<void>((resolve, reject) => {
+    if (pc.connectionState === "connected") {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(
+      () => reject(new Error("Loopback connection timed out")),
+      GATHERING_TIMEOUT
+    );
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === "connected") {
+        clearTimeout(timer);
+        resolve();
+      } else if (pc.connectionState === "failed") {
+        clearTimeout(timer);
+        reject(new Error("Loopback connection failed"));
+      }
+    };
+  });
+
+const bytesReceived = async (pc: RTCPeerConnection) => {
+  let total = 0;
+  let route: string | null = null;
+  const report = await pc.getStats();
+  report.forEach((entry) => {
+    if (entry.type === "inbound-rtp" && entry.kind === "video") {
+      total += entry.bytesReceived ?? 0;
+    }
+    if (entry.type === "transport" && entry.selectedCandidatePairId) {
+      const pair = report.get(entry.selectedCandidatePairId);
+      const local = report.get(pair?.localCandidateId)?.candidateType;
+      const remote = report.get(pair?.remoteCandidateId)?.candidateType;
+      route = local && remote ? `${local}/${remote}` : null;
+    }
+  });
+  return { total, route };
+};
+
+// Send a video track from one connection to another in the same page. With
+// iceTransportPolicy "relay" the media makes a round trip through TURN, so the
+// result reflects the real network rather than this machine.
+export const measureLoopbackBitrate = async (
+  track: MediaStreamTrack,
+  configuration: RTCConfiguration,
+  duration = 5000
+): Promise<LoopbackResult> => {
+  const sender = new RTCPeerConnection(configuration);
+  const receiver = new RTCPeerConnection(configuration);
+
+  try {
+    sender.addTransceiver(track, {
+      direction: "sendonly",
+      sendEncodings: [{ maxBitrate: 5_000_000 }],
+    });
+
+    // Both ends are in this page, so descriptions are handed over with all
+    // their candidates instead of trickling them
+    await sender.setLocalDescription();
+    await waitForGathering(sender);
+    await receiver.setRemoteDescription(sender.localDescription!);
+    await receiver.setLocalDescription();
+    await waitForGathering(receiver);
+    await sender.setRemoteDescription(receiver.localDescription!);
+    await waitForConnection(receiver);
+
+    const start = await bytesReceived(receiver);
+    const startedAt = Date.now();
+    await new Promise((resolve) => setTimeout(resolve, duration));
+    const end = await bytesReceived(receiver);
+    const elapsed = Date.now() - startedAt;
+
+    const result = {
+      // Bits per millisecond are kilobits per second
+      bitrate: ((end.total - start.total) * 8) / elapsed,
+      route: end.route,
+    };
+    log.debug("Loopback bitrate test finished:", result);
+    return result;
+  } finally {
+    sender.close();
+    receiver.close();
+  }
+};
@@ -4,15 +4,18 @@ import { auth } from "./firebase";
 import { onIdTokenChanged } from "firebase/auth";
 import Cookies from "js-cookie";
 import { useEffect } from "react";
+import { createLogger } from "./logger";
+
+const log = createLogger("auth");
 
 // Set the token in a cookie
 export const setTokenCookie = (token: string) => {
   if (!token) {
-    console.error("Attempted to set empty token");
+    log.error("Attempted to set empty token");
     return;
   }
 
-  console.log("Setting token cookie");
+  log.debug("Setting token cookie");
   Cookies.set("firebase-token", token, {
     expires: 14, // 14 days
     secure: process.env.NODE_ENV === "production",
@@ -23,7 +26,7 @@ export const setTokenCookie = (token: string) => {
 
 // Remove the token cookie
 export const removeTokenCookie = () => {
-  console.log("Removing token cookie");
+  log.debug("Removing token cookie");
   Cookies.remove("firebase-token", { path: "/" });
 };
 
@@ -35,24 +38,24 @@ export const getTokenCookie = () => {
 // Hook to handle token changes
 export const useFirebaseTokenCookie = () => {
   useEffect(() => {
-    console.log("Setting up token change listener");
+    log.debug("Setting up token change listener");
     const unsubscribe = onIdTokenChanged(auth, async (user) => {
       if (user) {
         try {
           const token = await user.getIdToken();
           setTokenCookie(token);
-          console.log("Token updated in cookie from change listener");
+          log.debug("Token updated in cookie from change listener");
         } catch (error) {
-          console.error("Error getting token in change listener:", error);
+          log.error("Error getting token in change listener:", error);
         }
       } else {
         removeTokenCookie();
-        console.log("Token removed from cookie in change listener");
+        log.debug("Token removed from cookie in change listener");
       }
     });
 
     return () => {
-      console.log("Cleaning up token change listener");
+      log.debug("Cleaning up token change listener");
       unsubscribe();
     };
   }, []);
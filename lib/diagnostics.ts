@@ -0,0 +1,157 @@
+// Timeline of what happened during a call, exported as a JSON file when a
+// meeting goes wrong. Events are kept in memory only, capped so a long call
+// cannot grow without bound, and secrets are redacted when exporting.
+import type { PresenceHandlers, SignalingTransport } from "./signaling/types";
+
+export type DiagnosticEvent = {
+  timestamp: number;
+  category: string;
+  peerId?: string;
+  detail?: unknown;
+};
+
+const MAX_EVENTS = 2000;
+
+let events: DiagnosticEvent[] = [];
+
+export const recordDiagnosticEvent = (
+  category: string,
+  peerId?: string,
+  detail?: unknown
+) => {
+  events.push({ timestamp: Date.now(), category, peerId, detail });
+  if (events.length > MAX_EVENTS) {
+    events = events.slice(-MAX_EVENTS);
+  }
+};
+
+export const getDiagnosticEvents = () => [...events];
+
+// Keys whose values are never written to a diagnostics file
+const SECRET_KEYS = new Set([
+  "credential",
+  "password",
+  "token",
+  "idToken",
+  "accessToken",
+  "refreshToken",
+  "apiKey",
+  // RTCCertificateStats carry the same DTLS certificate as the SDP fingerprint
+  "fingerprint",
+  "base64Certificate",
+]);
+
+// Fingerprints and ICE passwords would let someone who gets hold of the file
+// impersonate either end of the connection
+export const redactSdp = (sdp: string) =>
+  sdp
+    .replace(/^a=fingerprint:.*$/gm, "a=fingerprint:[redacted]")
+    .replace(/^a=ice-pwd:.*$/gm, "a=ice-pwd:[redacted]");
+
+export const redactSecrets = (value: unknown): unknown => {
+  if (typeof value === "string") {
+    return value.includes("a=fingerprint:") || value.includes("a=ice-pwd:")
+      ? redactSdp(value)
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SECRET_KEYS.has(key) ? "[redacted]" : redactSecrets(entry),
+      ])
+    );
+  }
+  return value;
+};
+
+// RTCStatsReport is a Map, which JSON.stringify drops
+export const serializeStatsReport = (report: RTCStatsReport) => {
+  const entries: Record<string, unknown>[] = [];
+  report.forEach((entry) => entries.push({ ...entry }));
+  return entries;
+};
+
+// Record every signaling message sent or received through a transport
+export const withSignalingDiagnostics = (
+  transport: SignalingTransport
+): SignalingTransport => ({
+  get roomId() {
+    return transport.roomId;
+  },
+  get sessionId() {
+    return transport.sessionId;
+  },
+  sendOffer: (peerId, offer) => {
+    recordDiagnosticEvent("signaling:send-offer", peerId, offer);
+    return transport.sendOffer(peerId, offer);
+  },
+  sendAnswer: (peerId, answer) => {
+    recordDiagnosticEvent("signaling:send-answer", peerId, answer);
+    return transport.sendAnswer(peerId, answer);
+  },
+  sendCandidate: (peerId, candidate) => {
+    recordDiagnosticEvent("signaling:send-candidate", peerId, candidate);
+    return transport.sendCandidate(peerId, candidate);
+  },
+  sendBye: (peerId) => {
+    recordDiagnosticEvent("signaling:send-bye", peerId);
+    return transport.sendBye(peerId);
+  },
+  subscribe: (peerId, handlers) =>
+    transport.subscribe(peerId, {
+      onOffer: (offer) => {
+        recordDiagnosticEvent("signaling:receive-offer", peerId, offer);
+        handlers.onOffer(offer);
+      },
+      onAnswer: (answer) => {
+        recordDiagnosticEvent("signaling:receive-answer", peerId, answer);
+        handlers.onAnswer(answer);
+      },
+      onCandidate: (candidate) => {
+        recordDiagnosticEvent("signaling:receive-candidate", peerId, candidate);
+        handlers.onCandidate(candidate);
+      },
+      onBye: () => {
+        recordDiagnosticEvent("signaling:receive-bye", peerId);
+        handlers.onBye();
+      },
+    }),
+  ...(transport.subscribePresence && {
+    subscribePresence: (handlers: PresenceHandlers) =>
+      transport.subscribePresence!({
+        onPeerJoined: (peerId) => {
+          recordDiagnosticEvent("signaling:peer-joined", peerId);
+          handlers.onPeerJoined(peerId);
+        },
+        onPeerLeft: (peerId) => {
+          recordDiagnosticEvent("signaling:peer-left", peerId);
+          handlers.onPeerLeft(peerId);
+        },
+      }),
+  }),
+  reset: () => transport.reset(),
+  close: () => transport.close(),
+});
+
+// Save a diagnostics bundle through the browser's download prompt
+export const downloadDiagnosticsFile = (
+  bundle: Record<string, unknown>,
+  filename: string
+) => {
+  const blob = new Blob([JSON.stringify(redactSecrets(bundle), null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,49 @@
+import { initializeApp, getApps, cert, type App } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { createLogger } from "./logger";
+
+const log = createLogger("auth");
+
+// Server-side Firebase app, used by API routes to verify ID tokens. A service
+// account is only needed for privileged access; verifying tokens works with
+// the project ID alone.
+const createAdminApp = (): App => {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n");
+
+  return initializeApp({
+    projectId,
+    databaseURL: `https://${projectId}-default-rtdb.firebaseio.com`,
+    ...(clientEmail && privateKey
+      ? { credential: cert({ projectId, clientEmail, privateKey }) }
+      : {}),
+  });
+};
+
+const adminApp = getApps()[0] ?? createAdminApp();
+const adminAuth = getAuth(adminApp);
+
+// Resolve the signed-in user from a bearer token or the firebase-token cookie
+const verifyRequestUser = async (request: Request) => {
+  const header = request.headers.get("authorization");
+  const bearer = header?.startsWith("Bearer ") ? header.slice(7) : null;
+  const cookie = request.headers
+    .get("cookie")
+    ?.split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith("firebase-token="))
+    ?.slice("firebase-token=".length);
+
+  const token = bearer || (cookie ? decodeURIComponent(cookie) : null);
+  if (!token) return null;
+
+  try {
+    return await adminAuth.verifyIdToken(token);
+  } catch (error) {
+    log.error("Error verifying ID token:", error);
+    return null;
+  }
+};
+
+export { adminApp, adminAuth, verifyRequestUser };
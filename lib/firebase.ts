@@ -3,6 +3,9 @@ import { getAuth } from "firebase/auth";
 import { getFirestore } from "firebase/firestore";
 import { getStorage } from "firebase/storage";
 import { getDatabase } from "firebase/database";
+import { createLogger } from "./logger";
+
+const log = createLogger("app");
 
 // Make sure the Firebase configuration is correctly set up
 const firebaseConfig = {
@@ -16,8 +19,8 @@ const firebaseConfig = {
   databaseURL: `https://${process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID}-default-rtdb.firebaseio.com`,
 };
 
-// Add console logging to help debug
-console.log("Firebase config (without sensitive data):", {
+// Log the configuration to help debug
+log.debug("Firebase config (without sensitive data):", {
   authDomain: firebaseConfig.authDomain,
   projectId: firebaseConfig.projectId,
   storageBucket: firebaseConfig.storageBucket,
@@ -29,9 +32,9 @@ let app;
 if (getApps().length === 0) {
   try {
     app = initializeApp(firebaseConfig);
-    console.log("Firebase initialized successfully");
+    log.debug("Firebase initialized successfully");
   } catch (error) {
-    console.error("Error initializing Firebase:", error);
+    log.error("Error initializing Firebase:", error);
     throw error;
   }
 } else {
@@ -44,7 +47,7 @@ const storage = getStorage(app);
 const rtdb = getDatabase(app);
 
 // Log database connection status
-console.log(
+log.debug(
   "Realtime Database initialized with URL:",
   rtdb.app.options.databaseURL
 );
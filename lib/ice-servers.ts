@@ -0,0 +1,88 @@
+import type { User } from "firebase/auth";
+import type { IceServersResponse } from "./turn-credentials";
+import { createLogger } from "./logger";
+
+const log = createLogger("webrtc");
+
+// Public STUN servers, used until /api/turn answers or whenever it cannot be
+// reached. Without TURN some networks cannot connect, but most still can.
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: ["stun:stun1.l.google.com:19302", "stun:stun2.l.google.com:19302"] },
+];
+
+// Connection policy shared by every peer connection; ICE servers are filled in
+// from /api/turn at runtime
+export const baseRtcConfiguration: RTCConfiguration = {
+  iceServers: FALLBACK_ICE_SERVERS,
+  iceCandidatePoolSize: 10,
+  bundlePolicy: "balanced",
+  rtcpMuxPolicy: "require",
+  iceTransportPolicy: "all",
+};
+
+// Refresh this long before the credentials expire
+const REFRESH_MARGIN = 5 * 60 * 1000;
+// Retry a failed fetch after this long, doubling up to the maximum
+const RETRY_BASE_DELAY = 5000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+let cached: IceServersResponse | null = null;
+let inflight: Promise<IceServersResponse> | null = null;
+// Fetches that failed in a row
+let failedFetches = 0;
+
+const fetchIceServers = async (user: User): Promise<IceServersResponse> => {
+  const token = await user.getIdToken();
+  const response = await fetch("/api/turn", {
+    headers: { Authorization: `Bearer ${token}` },
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ICE servers (${response.status})`);
+  }
+  return response.json();
+};
+
+const getCacheRefreshDelay = () => {
+  if (!cached) return 0;
+  const lifetime = cached.expiresAt - Date.now();
+  return Math.max(0, lifetime - Math.min(REFRESH_MARGIN, lifetime / 2));
+};
+
+// Time until the ICE servers should be fetched again, in ms. After a failed
+// fetch with nothing fresh cached this is a backoff retry rather than 0.
+export const getIceServersRefreshDelay = () => {
+  const delay = getCacheRefreshDelay();
+  if (delay > 0 || failedFetches === 0) return delay;
+  return Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (failedFetches - 1));
+};
+
+// Get an RTCConfiguration with fresh ICE servers, reusing the cached
+// credentials until they are close to expiry
+export const getIceConfiguration = async (
+  user: User,
+  forceRefresh = false
+): Promise<RTCConfiguration> => {
+  if (!forceRefresh && cached && getCacheRefreshDelay() > 0) {
+    return { ...baseRtcConfiguration, iceServers: cached.iceServers };
+  }
+
+  try {
+    inflight ||= fetchIceServers(user);
+    cached = await inflight;
+    failedFetches = 0;
+    log.debug(
+      `Fetched ${cached.iceServers.length} ICE servers, valid for ${cached.ttl}s`
+    );
+  } catch (error) {
+    log.error("Error fetching ICE servers:", error);
+    failedFetches += 1;
+    // Keep using credentials that are close to expiry, but expired ones are
+    // refused by the TURN server, so fall back to STUN only
+    if (!cached || cached.expiresAt <= Date.now()) return baseRtcConfiguration;
+  } finally {
+    inflight = null;
+  }
+
+  return { ...baseRtcConfiguration, iceServers: cached.iceServers };
+};
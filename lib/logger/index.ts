@@ -0,0 +1,135 @@
+import { consoleSink, createHttpSink, createRingBufferSink } from "./sinks";
+import {
+  LOG_LEVELS,
+  type LogEntry,
+  type LogLevel,
+  type LogNamespace,
+  type LogSink,
+} from "./types";
+
+export { LOG_LEVELS, LOG_NAMESPACES } from "./types";
+export type { LogEntry, LogLevel, LogNamespace, LogSink } from "./types";
+export { createHttpSink, createRingBufferSink } from "./sinks";
+
+// Levels are set with ?log=<spec> (remembered for later visits) or the
+// "logLevel" localStorage key. A spec is a default level and/or per-namespace
+// overrides, e.g. "warn", "debug" or "info,webrtc:debug,signaling:warn".
+const LEVEL_QUERY_PARAM = "log";
+const LEVEL_STORAGE_KEY = "logLevel";
+
+const defaultLevel: LogLevel =
+  process.env.NODE_ENV === "production" ? "info" : "debug";
+
+type LevelConfig = {
+  level: LogLevel;
+  namespaces: Partial<Record<string, LogLevel>>;
+};
+
+const isLogLevel = (value: string): value is LogLevel =>
+  (LOG_LEVELS as readonly string[]).includes(value);
+
+export const parseLevelSpec = (spec: string): LevelConfig | null => {
+  const config: LevelConfig = { level: defaultLevel, namespaces: {} };
+
+  for (const part of spec.split(",")) {
+    const [first, second] = part.trim().split(":");
+    if (second === undefined && isLogLevel(first)) {
+      config.level = first;
+    } else if (second !== undefined && isLogLevel(second)) {
+      config.namespaces[first] = second;
+    } else {
+      return null;
+    }
+  }
+  return config;
+};
+
+const readLevelConfig = (): LevelConfig => {
+  const fallback = { level: defaultLevel, namespaces: {} };
+  if (typeof window === "undefined") return fallback;
+
+  try {
+    const query = new URLSearchParams(window.location.search).get(
+      LEVEL_QUERY_PARAM
+    );
+    const queryConfig = query ? parseLevelSpec(query) : null;
+    if (query && queryConfig) {
+      localStorage.setItem(LEVEL_STORAGE_KEY, query);
+      return queryConfig;
+    }
+
+    const stored = localStorage.getItem(LEVEL_STORAGE_KEY);
+    return (stored && parseLevelSpec(stored)) || fallback;
+  } catch {
+    // localStorage is unavailable in some privacy modes
+    return fallback;
+  }
+};
+
+let levelConfig = readLevelConfig();
+
+export const getLogLevel = (namespace: LogNamespace) =>
+  levelConfig.namespaces[namespace] ?? levelConfig.level;
+
+// Change levels at runtime, e.g. setLogLevel("webrtc:debug") from devtools
+export const setLogLevel = (spec: string) => {
+  const config = parseLevelSpec(spec);
+  if (!config) return false;
+  levelConfig = config;
+  try {
+    localStorage.setItem(LEVEL_STORAGE_KEY, spec);
+  } catch {
+    // Still applies to this page
+  }
+  return true;
+};
+
+// Recent entries at every level, included in diagnostics bundles
+export const logBuffer = createRingBufferSink(1000);
+
+const sinks: LogSink[] = [consoleSink, logBuffer];
+if (typeof window !== "undefined") {
+  sinks.push(createHttpSink("/api/logs"));
+}
+
+export const addLogSink = (sink: LogSink) => {
+  sinks.push(sink);
+  return () => {
+    const index = sinks.indexOf(sink);
+    if (index !== -1) sinks.splice(index, 1);
+  };
+};
+
+const isEnabled = (level: LogLevel, threshold: LogLevel) =>
+  LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+
+export const writeLogEntry = (entry: LogEntry) => {
+  const configured = getLogLevel(entry.namespace);
+  sinks.forEach((sink) => {
+    if (!isEnabled(entry.level, sink.level ?? configured)) return;
+    try {
+      sink.write(entry);
+    } catch {
+      // A broken sink must never take the caller down with it
+    }
+  });
+};
+
+export type Logger = Record<
+  LogEntry["level"],
+  (message: string, ...data: unknown[]) => void
+>;
+
+export const createLogger = (namespace: LogNamespace): Logger => {
+  const write =
+    (level: LogEntry["level"]) =>
+    (message: string, ...data: unknown[]) =>
+      writeLogEntry({ timestamp: Date.now(), level, namespace, message, data });
+
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+  };
+};
@@ -0,0 +1,156 @@
+import {
+  LOG_LEVELS,
+  type LogEntry,
+  type LogLevel,
+  type LogSink,
+} from "./types";
+
+// Types whose toJSON() holds nothing that shouldn't leave the browser
+const hasSafeToJSON = (value: object) =>
+  value instanceof Date ||
+  (typeof RTCIceCandidate !== "undefined" &&
+    value instanceof RTCIceCandidate) ||
+  (typeof RTCSessionDescription !== "undefined" &&
+    value instanceof RTCSessionDescription);
+
+// Copy of a logged value that is safe to keep and to send as JSON. Log data
+// often includes media streams, connections and events with cycles, so depth
+// is capped and anything that is not plain data is described instead.
+export const toSerializable = (
+  value: unknown,
+  depth = 3,
+  seen = new WeakSet<object>()
+): unknown => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (value === null || typeof value !== "object") {
+    return typeof value === "function" || typeof value === "symbol"
+      ? String(value)
+      : value;
+  }
+  if (seen.has(value)) return "[circular]";
+  if (depth <= 0) return `[${value.constructor?.name ?? "object"}]`;
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => toSerializable(item, depth - 1, seen));
+  }
+  // Class instances such as MediaStream keep their state out of reach, and
+  // the toJSON() of others, such as a Firebase User, gives away personal
+  // details, so only plain objects and known types are serialized
+  const prototype = Object.getPrototypeOf(value);
+  const isPlain = prototype === Object.prototype || prototype === null;
+  if (
+    (isPlain || hasSafeToJSON(value)) &&
+    "toJSON" in value &&
+    typeof value.toJSON === "function"
+  ) {
+    return toSerializable(value.toJSON(), depth - 1, seen);
+  }
+  if (!isPlain) {
+    const id = "id" in value ? ` ${String(value.id)}` : "";
+    return `[${value.constructor?.name ?? "object"}${id}]`;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      toSerializable(item, depth - 1, seen),
+    ])
+  );
+};
+
+const CONSOLE_METHODS = {
+  debug: "log",
+  info: "info",
+  warn: "warn",
+  error: "error",
+} as const;
+
+export const consoleSink: LogSink = {
+  write: ({ level, namespace, message, data }) => {
+    console[CONSOLE_METHODS[level]](`[${namespace}] ${message}`, ...data);
+  },
+};
+
+export type RingBufferSink = LogSink & {
+  entries: () => LogEntry[];
+};
+
+// Keeps the most recent entries at every level for diagnostics bundles
+export const createRingBufferSink = (capacity: number): RingBufferSink => {
+  const buffer: LogEntry[] = [];
+
+  return {
+    level: "debug",
+    write: (entry) => {
+      buffer.push({
+        ...entry,
+        data: entry.data.map((item) => toSerializable(item)),
+      });
+      if (buffer.length > capacity) {
+        buffer.splice(0, buffer.length - capacity);
+      }
+    },
+    entries: () => [...buffer],
+  };
+};
+
+type HttpSinkOptions = {
+  level?: LogLevel;
+  batchSize?: number;
+  flushInterval?: number;
+};
+
+// Batches entries and POSTs them as { entries } to an API route. Whatever is
+// still queued when the page is hidden goes out with sendBeacon. The sink
+// follows the configured level, but never sends anything below `level`, so
+// debug output stays in the browser.
+export const createHttpSink = (
+  url: string,
+  { level = "warn", batchSize = 20, flushInterval = 5000 }: HttpSinkOptions = {}
+): LogSink => {
+  let queue: LogEntry[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = (useBeacon = false) => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (queue.length === 0) return;
+
+    const body = JSON.stringify({ entries: queue });
+    queue = [];
+    if (useBeacon && navigator.sendBeacon) {
+      navigator.sendBeacon(url, new Blob([body], { type: "application/json" }));
+      return;
+    }
+    // Failures are dropped; logging them would only queue more entries
+    fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      keepalive: true,
+    }).catch(() => {});
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", () => flush(true));
+  }
+
+  return {
+    write: (entry) => {
+      if (LOG_LEVELS.indexOf(entry.level) < LOG_LEVELS.indexOf(level)) return;
+      queue.push({
+        ...entry,
+        data: entry.data.map((item) => toSerializable(item)),
+      });
+      if (queue.length >= batchSize) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(() => flush(), flushInterval);
+      }
+    },
+  };
+};
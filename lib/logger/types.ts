@@ -0,0 +1,30 @@
+// Ordered from most to least verbose; "silent" as a threshold disables output
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_NAMESPACES = [
+  "app",
+  "auth",
+  "room",
+  "chat",
+  "webrtc",
+  "signaling",
+] as const;
+
+export type LogNamespace = (typeof LOG_NAMESPACES)[number];
+
+export type LogEntry = {
+  timestamp: number;
+  level: Exclude<LogLevel, "silent">;
+  namespace: LogNamespace;
+  message: string;
+  data: unknown[];
+};
+
+export interface LogSink {
+  // Least severe level this sink records; without one it follows the level
+  // configured for the entry's namespace
+  readonly level?: LogLevel;
+  write: (entry: LogEntry) => void;
+}
@@ -0,0 +1,29 @@
+import {
+  DEFAULT_AUDIO_PROCESSING,
+  getAudioProcessingConstraints,
+  type AudioProcessingSettings,
+} from "./audio-pipeline";
+
+// getUserMedia constraints for the call, shared by the room and the pre-call
+// test page so both capture exactly the same way
+export const getMediaConstraints = (
+  video: boolean,
+  audio: boolean,
+  videoDeviceId?: string | null,
+  audioDeviceId?: string | null,
+  audioProcessing: AudioProcessingSettings = DEFAULT_AUDIO_PROCESSING
+): MediaStreamConstraints => ({
+  audio: audio
+    ? {
+        ...(audioDeviceId ? { deviceId: { exact: audioDeviceId } } : {}),
+        ...getAudioProcessingConstraints(audioProcessing),
+      }
+    : false,
+  video: video
+    ? {
+        ...(videoDeviceId ? { deviceId: { exact: videoDeviceId } } : {}),
+        width: { ideal: 1280 },
+        height: { ideal: 720 },
+      }
+    : false,
+});
@@ -0,0 +1,93 @@
+// Call quality estimate per connection, shown as signal bars on video tiles.
+// The score is a mean opinion score (1 to 5) from a simplified ITU-T G.107
+// E-model, which is what VoIP tools use to turn loss, jitter and latency into
+// "how does this call feel".
+import type { CallStatsSample } from "./call-stats";
+
+export const QUALITY_INTERVAL = 2000;
+
+export type NetworkQualityLevel = "excellent" | "good" | "fair" | "poor";
+
+export type NetworkQuality = {
+  mos: number;
+  level: NetworkQualityLevel;
+  // Number of signal bars to show, 1 to 4
+  bars: number;
+  // What is dragging the score down, if anything
+  reason: string | null;
+};
+
+export const estimateMos = (
+  packetLoss: number,
+  jitter: number,
+  roundTripTime: number
+) => {
+  const latency = roundTripTime / 2 + jitter * 2 + 10;
+  const latencyPenalty = latency < 160 ? latency / 40 : (latency - 120) / 10;
+  const r = Math.max(
+    0,
+    Math.min(100, 93.2 - latencyPenalty - packetLoss * 2.5)
+  );
+  return 1 + 0.035 * r + 0.000007 * r * (r - 60) * (100 - r);
+};
+
+const levelForMos = (mos: number): NetworkQualityLevel => {
+  if (mos >= 4) return "excellent";
+  if (mos >= 3.6) return "good";
+  if (mos >= 3.1) return "fair";
+  return "poor";
+};
+
+const BARS: Record<NetworkQualityLevel, number> = {
+  excellent: 4,
+  good: 3,
+  fair: 2,
+  poor: 1,
+};
+
+const describeCause = (
+  packetLoss: number,
+  jitter: number,
+  roundTripTime: number
+) => {
+  if (packetLoss >= 5) return `High packet loss (${packetLoss.toFixed(1)}%)`;
+  if (roundTripTime >= 300)
+    return `High latency (${Math.round(roundTripTime)} ms)`;
+  if (jitter >= 30)
+    return `Unstable connection (${Math.round(jitter)} ms jitter)`;
+  if (packetLoss >= 1) return `Some packet loss (${packetLoss.toFixed(1)}%)`;
+  return null;
+};
+
+// Quality of what we receive from a peer; loss on our own uplink is reported
+// by the far end, so the worse of the two directions counts
+export const assessNetworkQuality = (
+  sample: CallStatsSample
+): NetworkQuality => {
+  const packetLoss = Math.max(sample.packetLoss, sample.outboundPacketLoss);
+  const jitter = sample.jitter ?? 0;
+  const roundTripTime = sample.roundTripTime ?? 0;
+  const mos = estimateMos(packetLoss, jitter, roundTripTime);
+  const level = levelForMos(mos);
+
+  return {
+    mos,
+    level,
+    bars: BARS[level],
+    reason:
+      level === "excellent"
+        ? null
+        : describeCause(packetLoss, jitter, roundTripTime),
+  };
+};
+
+// Our uplink is the likely culprit when every connection loses what we send
+// or cannot get enough bandwidth out, rather than just one of them
+export const isUplinkPoor = (samples: CallStatsSample[]) =>
+  samples.length > 0 &&
+  samples.every(
+    (sample) =>
+      sample.outboundPacketLoss >= 5 ||
+      (sample.availableOutgoingBitrate !== null &&
+        sample.availableOutgoingBitrate < 150)
+  );
@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+// Schemas for everything read from or written to RTDB. Reads use safeParse
+// so malformed data can be reported instead of crashing a listener.
+
+// What a participant is sending, so others can tell a muted microphone or a
+// turned-off camera from a stalled stream
+export const participantMediaSchema = z.object({
+  audio: z.boolean(),
+  video: z.boolean(),
+  screen: z.boolean(),
+});
+
+// Participants are keyed by session ID; uid links sessions of the same user
+export const participantSchema = z.object({
+  uid: z.string(),
+  displayName: z.string(),
+  joined: z.number(),
+  // Missing until the session has published its media state
+  media: participantMediaSchema.optional(),
+});
+
+// "mesh" connects every pair of participants directly; "sfu" routes media
+// through the server in scripts/sfu-server.mjs
+export const roomTopologySchema = z.enum(["mesh", "sfu"]);
+
+// Session spotlighted for everyone. Anyone in the room can write this node,
+// so `by` records whose choice it was; only the room creator's is followed.
+export const spotlightSchema = z.object({
+  sessionId: z.string(),
+  by: z.string(),
+});
+
+export const roomSchema = z.object({
+  name: z.string(),
+  createdBy: z.string(),
+  createdAt: z.number(),
+  topology: roomTopologySchema.optional().default("mesh"),
+  participants: z.record(participantSchema).optional().default({}),
+  // A malformed spotlight is treated as none rather than breaking the room
+  spotlight: spotlightSchema.optional().catch(undefined),
+});
+
+export const messageSchema = z.object({
+  userId: z.string(),
+  userName: z.string(),
+  text: z.string().min(1),
+  timestamp: z.number(),
+});
+
+const signalingMetadataSchema = z.object({
+  sessionId: z.string().optional(),
+  timestamp: z.number().optional(),
+});
+
+export const offerSchema = signalingMetadataSchema.extend({
+  type: z.literal("offer"),
+  sdp: z.string().min(1),
+});
+
+export const answerSchema = signalingMetadataSchema.extend({
+  type: z.literal("answer"),
+  sdp: z.string().min(1),
+});
+
+export const candidateSchema = signalingMetadataSchema.extend({
+  candidate: z.string(),
+  sdpMid: z.string().nullable().optional(),
+  sdpMLineIndex: z.number().nullable().optional(),
+  usernameFragment: z.string().nullable().optional(),
+});
+
+export type Participant = z.infer<typeof participantSchema>;
+export type ParticipantMedia = z.infer<typeof participantMediaSchema>;
+export type RoomTopology = z.infer<typeof roomTopologySchema>;
+export type Spotlight = z.infer<typeof spotlightSchema>;
+export type RoomData = z.infer<typeof roomSchema>;
+export type MessageData = z.infer<typeof messageSchema>;
+
+// One-line summary of a validation failure for logs and error banners
+export const describeSchemaError = (error: z.ZodError) =>
+  error.issues
+    .map((issue) => `${issue.path.join(".") || "value"}: ${issue.message}`)
+    .join("; ");
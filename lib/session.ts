@@ -0,0 +1,10 @@
+// Identifies one join of a room from one tab or device. Participants and
+// signaling are keyed by it, so the same user can be in a room more than once
+// and signaling left behind by an earlier (possibly crashed) session can be
+// told apart
+export const createSessionId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
@@ -0,0 +1,229 @@
+// Client for the SFU in scripts/sfu-server.mjs. Local tracks are published
+// once on one connection and every other participant's tracks arrive on a
+// second one, grouped in streams whose ID is the publishing peer's ID.
+
+import {
+  SIMULCAST_ENCODINGS,
+  VIDEO_LAYERS,
+  type VideoLayer,
+} from "./simulcast";
+import { auth } from "./firebase";
+import { createLogger } from "./logger";
+
+const log = createLogger("webrtc");
+
+export const sfuUrl = process.env.NEXT_PUBLIC_SFU_URL || "ws://localhost:8788";
+
+type SfuTarget = "publisher" | "subscriber";
+
+// Close codes from scripts/peer-auth.mjs
+const CLOSE_REPLACED = 4000;
+const CLOSE_UNAUTHORIZED = 4001;
+
+type SfuServerMessage =
+  | { kind: "publish-answer"; sdp: string }
+  | { kind: "subscribe-offer"; sdp: string }
+  | { kind: "candidate"; target: SfuTarget; candidate: RTCIceCandidateInit }
+  | { kind: "peer-left"; peerId: string }
+  | { kind: "error"; message: string };
+
+export type SfuHandlers = {
+  onStream: (peerId: string, stream: MediaStream) => void;
+  onPeerLeft: (peerId: string) => void;
+  onConnectionStateChange: (state: RTCPeerConnectionState) => void;
+  onError: (message: string) => void;
+};
+
+export class SfuClient {
+  readonly publisher: RTCPeerConnection;
+  readonly subscriber: RTCPeerConnection;
+  private socket: WebSocket;
+  private outbox: string[] = [];
+  // Set once the join is sent; messages queue in the outbox until then
+  private joined = false;
+  // Messages are handled one at a time so candidates never overtake the
+  // description they belong to
+  private inbox: Promise<void> = Promise.resolve();
+  // Candidates that arrived before the description they belong to
+  private pendingCandidates: Record<SfuTarget, RTCIceCandidateInit[]> = {
+    publisher: [],
+    subscriber: [],
+  };
+  private closed = false;
+
+  constructor(
+    readonly roomId: string,
+    readonly peerId: string,
+    configuration: RTCConfiguration,
+    private readonly handlers: SfuHandlers,
+    url: string = sfuUrl
+  ) {
+    this.publisher = this.createConnection("publisher", configuration);
+    this.subscriber = this.createConnection("subscriber", configuration);
+
+    this.publisher.onnegotiationneeded = async () => {
+      try {
+        await this.publisher.setLocalDescription();
+        this.send({
+          kind: "publish-offer",
+          sdp: this.publisher.localDescription?.sdp,
+        });
+      } catch (error) {
+        log.error("Error offering to SFU:", error);
+        this.handlers.onError("Failed to publish media to the server");
+      }
+    };
+
+    this.subscriber.ontrack = (event) => {
+      const [stream] = event.streams;
+      if (!stream) return;
+      log.debug(`Received ${event.track.kind} from ${stream.id} via SFU`);
+      this.handlers.onStream(stream.id, stream);
+    };
+
+    log.debug(`Connecting to SFU at ${url}`);
+    this.socket = new WebSocket(url);
+    this.socket.onopen = async () => {
+      log.info("SFU connected, joining room", roomId);
+      // The server checks the token against our participant node
+      let token: string | undefined;
+      try {
+        token = await auth.currentUser?.getIdToken();
+      } catch (error) {
+        log.error("Error getting ID token for the SFU:", error);
+      }
+      if (this.closed || this.socket.readyState !== WebSocket.OPEN) return;
+
+      this.socket.send(JSON.stringify({ kind: "join", roomId, peerId, token }));
+      this.joined = true;
+      this.outbox.forEach((message) => this.socket.send(message));
+      this.outbox = [];
+    };
+    this.socket.onmessage = (event) => {
+      const message = JSON.parse(event.data);
+      this.inbox = this.inbox
+        .then(() => this.dispatch(message))
+        .catch((error) => {
+          log.error("Error handling SFU message:", error);
+        });
+    };
+    this.socket.onclose = (event) => {
+      if (this.closed) return;
+      if (event.code === CLOSE_REPLACED || event.code === CLOSE_UNAUTHORIZED) {
+        log.error(`SFU closed the connection: ${event.reason}`);
+        this.handlers.onError("The media server refused this connection");
+      } else {
+        log.debug("SFU connection lost");
+      }
+      this.handlers.onConnectionStateChange("failed");
+    };
+  }
+
+  private createConnection(target: SfuTarget, configuration: RTCConfiguration) {
+    const pc = new RTCPeerConnection(configuration);
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.send({
+          kind: "candidate",
+          target,
+          candidate: event.candidate.toJSON(),
+        });
+      }
+    };
+    pc.onconnectionstatechange = () => {
+      log.debug(`SFU ${target} connection state: ${pc.connectionState}`);
+      this.handlers.onConnectionStateChange(pc.connectionState);
+    };
+    return pc;
+  }
+
+  private send(message: Record<string, unknown>) {
+    const data = JSON.stringify(message);
+    if (this.joined && this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(data);
+    } else {
+      this.outbox.push(data);
+    }
+  }
+
+  private async dispatch(message: SfuServerMessage) {
+    switch (message.kind) {
+      case "publish-answer":
+        await this.publisher.setRemoteDescription({
+          type: "answer",
+          sdp: message.sdp,
+        });
+        await this.flushCandidates("publisher");
+        break;
+      case "subscribe-offer":
+        await this.subscriber.setRemoteDescription({
+          type: "offer",
+          sdp: message.sdp,
+        });
+        await this.flushCandidates("subscriber");
+        await this.subscriber.setLocalDescription();
+        this.send({
+          kind: "subscribe-answer",
+          sdp: this.subscriber.localDescription?.sdp,
+        });
+        break;
+      case "candidate":
+        await this.addCandidate(message.target, message.candidate);
+        break;
+      case "peer-left":
+        this.handlers.onPeerLeft(message.peerId);
+        break;
+      case "error":
+        log.error("SFU error:", message.message);
+        break;
+    }
+  }
+
+  private async addCandidate(
+    target: SfuTarget,
+    candidate: RTCIceCandidateInit
+  ) {
+    const pc = target === "publisher" ? this.publisher : this.subscriber;
+    if (!pc.remoteDescription) {
+      this.pendingCandidates[target].push(candidate);
+      return;
+    }
+    await pc.addIceCandidate(candidate);
+  }
+
+  private async flushCandidates(target: SfuTarget) {
+    const candidates = this.pendingCandidates[target];
+    this.pendingCandidates[target] = [];
+    for (const candidate of candidates) {
+      await this.addCandidate(target, candidate);
+    }
+  }
+
+  // Send every track of the local stream to the server, video as simulcast
+  publish(stream: MediaStream) {
+    stream.getTracks().forEach((track) => {
+      this.publisher.addTransceiver(track, {
+        direction: "sendonly",
+        streams: [stream],
+        ...(track.kind === "video"
+          ? { sendEncodings: SIMULCAST_ENCODINGS }
+          : {}),
+      });
+    });
+  }
+
+  // Ask the server to forward a different simulcast layer of a peer's video
+  setLayer(peerId: string, layer: VideoLayer) {
+    this.send({ kind: "layer", peerId, layer: VIDEO_LAYERS[layer].rid });
+  }
+
+  close() {
+    this.closed = true;
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ kind: "leave" }));
+    }
+    this.socket.close();
+    this.publisher.close();
+    this.subscriber.close();
+  }
+}
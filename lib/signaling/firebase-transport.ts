@@ -0,0 +1,170 @@
+import {
+  ref,
+  onValue,
+  onChildAdded,
+  set,
+  remove,
+  push,
+  get,
+} from "firebase/database";
+import { rtdb } from "@/lib/firebase";
+import { answerSchema, candidateSchema, offerSchema } from "@/lib/schemas";
+import type {
+  IceCandidateMessage,
+  SessionDescriptionMessage,
+  SignalingHandlers,
+  SignalingTransport,
+} from "./types";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("signaling");
+
+const SIGNALING_NODES = ["offers", "answers", "candidates", "byes"] as const;
+
+// Signaling over Firebase RTDB. Messages live at
+// rooms/{roomId}/{node}/{senderId}/{receiverId}
+export class FirebaseSignalingTransport implements SignalingTransport {
+  private subscriptions: Record<string, () => void> = {};
+
+  constructor(readonly roomId: string, readonly sessionId: string) {}
+
+  private path(node: string, senderId: string, receiverId: string) {
+    return `rooms/${this.roomId}/${node}/${senderId}/${receiverId}`;
+  }
+
+  private stamp() {
+    return { sessionId: this.sessionId, timestamp: Date.now() };
+  }
+
+  async sendOffer(peerId: string, offer: SessionDescriptionMessage) {
+    await set(
+      ref(rtdb, this.path("offers", this.sessionId, peerId)),
+      offerSchema.parse({ type: "offer", sdp: offer.sdp, ...this.stamp() })
+    );
+  }
+
+  async sendAnswer(peerId: string, answer: SessionDescriptionMessage) {
+    await set(
+      ref(rtdb, this.path("answers", this.sessionId, peerId)),
+      answerSchema.parse({ type: "answer", sdp: answer.sdp, ...this.stamp() })
+    );
+  }
+
+  async sendCandidate(peerId: string, candidate: IceCandidateMessage) {
+    await push(
+      ref(rtdb, this.path("candidates", this.sessionId, peerId)),
+      candidateSchema.parse({ ...candidate, ...this.stamp() })
+    );
+  }
+
+  async sendBye(peerId: string) {
+    await set(ref(rtdb, this.path("byes", this.sessionId, peerId)), {
+      ...this.stamp(),
+    });
+  }
+
+  subscribe(peerId: string, handlers: SignalingHandlers) {
+    this.subscriptions[peerId]?.();
+
+    const offerRef = ref(rtdb, this.path("offers", peerId, this.sessionId));
+    const offerUnsubscribe = onValue(
+      offerRef,
+      (snapshot) => {
+        const offer = snapshot.val();
+        if (offer?.sdp) {
+          handlers.onOffer({ ...offer, type: "offer" });
+        }
+      },
+      (error) => {
+        log.error(`Error in offer listener for ${peerId}:`, error);
+      }
+    );
+
+    const answerRef = ref(rtdb, this.path("answers", peerId, this.sessionId));
+    const answerUnsubscribe = onValue(
+      answerRef,
+      (snapshot) => {
+        const answer = snapshot.val();
+        if (answer?.sdp) {
+          handlers.onAnswer({ ...answer, type: "answer" });
+          // Remove the processed answer to avoid re-processing
+          remove(answerRef).catch((err) =>
+            log.error(`Error removing answer from ${peerId}:`, err)
+          );
+        }
+      },
+      (error) => {
+        log.error(`Error in answer listener for ${peerId}:`, error);
+      }
+    );
+
+    const candidatesRef = ref(
+      rtdb,
+      this.path("candidates", peerId, this.sessionId)
+    );
+    const candidatesUnsubscribe = onChildAdded(
+      candidatesRef,
+      (snapshot) => {
+        handlers.onCandidate(snapshot.val());
+        // Delivered candidates are deleted right away so they are never
+        // replayed to a later listener
+        remove(snapshot.ref).catch((err) =>
+          log.error(`Error removing candidate from ${peerId}:`, err)
+        );
+      },
+      (error) => {
+        log.error(`Error in candidates listener for ${peerId}:`, error);
+      }
+    );
+
+    const byeRef = ref(rtdb, this.path("byes", peerId, this.sessionId));
+    const byeUnsubscribe = onValue(byeRef, (snapshot) => {
+      if (snapshot.exists()) {
+        handlers.onBye();
+        remove(byeRef).catch((err) =>
+          log.error(`Error removing bye from ${peerId}:`, err)
+        );
+      }
+    });
+
+    const unsubscribe = () => {
+      offerUnsubscribe();
+      answerUnsubscribe();
+      candidatesUnsubscribe();
+      byeUnsubscribe();
+      if (this.subscriptions[peerId] === unsubscribe) {
+        delete this.subscriptions[peerId];
+      }
+    };
+    this.subscriptions[peerId] = unsubscribe;
+    return unsubscribe;
+  }
+
+  async reset() {
+    log.debug(
+      `Cleaning up signaling data for room ${this.roomId} and session ${this.sessionId}`
+    );
+
+    for (const node of SIGNALING_NODES) {
+      // Messages we sent
+      await remove(ref(rtdb, `rooms/${this.roomId}/${node}/${this.sessionId}`));
+
+      // Messages other participants sent to us
+      const snapshot = await get(ref(rtdb, `rooms/${this.roomId}/${node}`));
+      if (snapshot.exists()) {
+        for (const senderId of Object.keys(snapshot.val())) {
+          if (senderId !== this.sessionId) {
+            await remove(ref(rtdb, this.path(node, senderId, this.sessionId)));
+          }
+        }
+      }
+    }
+
+    log.debug("Successfully cleaned up all signaling data");
+  }
+
+  close() {
+    Object.values(this.subscriptions).forEach((unsubscribe) => unsubscribe());
+    this.subscriptions = {};
+  }
+}
@@ -0,0 +1,26 @@
+import { FirebaseSignalingTransport } from "./firebase-transport";
+import { WebSocketSignalingTransport } from "./websocket-transport";
+import type { SignalingTransport } from "./types";
+
+export type SignalingBackend = "firebase" | "websocket";
+
+// Selected with NEXT_PUBLIC_SIGNALING_BACKEND; the websocket backend connects
+// to NEXT_PUBLIC_SIGNALING_URL (see scripts/signaling-server.mjs)
+export const signalingBackend: SignalingBackend =
+  process.env.NEXT_PUBLIC_SIGNALING_BACKEND === "websocket"
+    ? "websocket"
+    : "firebase";
+
+const signalingUrl =
+  process.env.NEXT_PUBLIC_SIGNALING_URL || "ws://localhost:8787";
+
+export const createSignalingTransport = (
+  roomId: string,
+  sessionId: string,
+  backend: SignalingBackend = signalingBackend
+): SignalingTransport => {
+  if (backend === "websocket") {
+    return new WebSocketSignalingTransport(roomId, sessionId, signalingUrl);
+  }
+  return new FirebaseSignalingTransport(roomId, sessionId);
+};
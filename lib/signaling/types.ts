@@ -0,0 +1,64 @@
+// Message shapes exchanged between peers. These match what has always been
+// stored under rooms/{roomId}/offers, /answers and /candidates in RTDB, so any
+// transport carrying them is interchangeable with the Firebase one.
+// Every message is stamped by the transport with the sender's session and
+// the sender's clock, so receivers can drop leftovers from earlier sessions
+export type SignalingMetadata = {
+  sessionId?: string;
+  timestamp?: number;
+};
+
+export type SessionDescriptionMessage = {
+  type: "offer" | "answer";
+  sdp: string;
+} & SignalingMetadata;
+
+// An empty `candidate` string marks end-of-candidates for the sender
+export type IceCandidateMessage = RTCIceCandidateInit & SignalingMetadata;
+
+export const END_OF_CANDIDATES: IceCandidateMessage = { candidate: "" };
+
+// Messages are handed over as they came off the wire; validating them is up
+// to the receiver
+export type SignalingHandlers = {
+  onOffer: (offer: unknown) => void;
+  onAnswer: (answer: unknown) => void;
+  // Each candidate is delivered exactly once; buffering candidates that
+  // arrive before the remote description is up to the receiver
+  onCandidate: (candidate: unknown) => void;
+  onBye: () => void;
+};
+
+// Sessions connected to the same room through the transport
+export type PresenceHandlers = {
+  onPeerJoined: (peerId: string) => void;
+  onPeerLeft: (peerId: string) => void;
+};
+
+export interface SignalingTransport {
+  readonly roomId: string;
+  // Our session; peers address us by it and it stamps what we send
+  readonly sessionId: string;
+  sendOffer: (
+    peerId: string,
+    offer: SessionDescriptionMessage
+  ) => Promise<void>;
+  sendAnswer: (
+    peerId: string,
+    answer: SessionDescriptionMessage
+  ) => Promise<void>;
+  sendCandidate: (
+    peerId: string,
+    candidate: IceCandidateMessage
+  ) => Promise<void>;
+  sendBye: (peerId: string) => Promise<void>;
+  // Listen for messages sent by a single peer to the local user
+  subscribe: (peerId: string, handlers: SignalingHandlers) => () => void;
+  // Only for transports that know who is connected. Peers already present
+  // are announced right away. Without it, peers are found through the
+  // room's participants node.
+  subscribePresence?: (handlers: PresenceHandlers) => () => void;
+  // Drop any signaling left over from a previous session of the local user
+  reset: () => Promise<void>;
+  close: () => void;
+}
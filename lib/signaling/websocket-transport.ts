@@ -0,0 +1,263 @@
+import type {
+  IceCandidateMessage,
+  PresenceHandlers,
+  SessionDescriptionMessage,
+  SignalingHandlers,
+  SignalingTransport,
+} from "./types";
+import { answerSchema, candidateSchema, offerSchema } from "@/lib/schemas";
+import { auth } from "@/lib/firebase";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("signaling");
+
+type SignalChannel = "offer" | "answer" | "candidate" | "bye";
+
+type ServerMessage =
+  | { kind: "presence"; peers: string[] }
+  | { kind: "peer-joined"; peerId: string }
+  | { kind: "peer-left"; peerId: string }
+  | { kind: "signal"; from: string; channel: SignalChannel; payload: unknown }
+  | { kind: "error"; message: string };
+
+// The channel a description arrived on decides its type, whatever the
+// payload claims
+const withType = (payload: unknown, type: "offer" | "answer") =>
+  payload && typeof payload === "object" ? { ...payload, type } : payload;
+
+const RECONNECT_DELAY = 2000;
+// Close codes from scripts/peer-auth.mjs: another connection took over this
+// session, or the join was refused. Reconnecting would not help either way.
+const CLOSE_REPLACED = 4000;
+const CLOSE_UNAUTHORIZED = 4001;
+
+// Signaling over the self-hosted server in scripts/signaling-server.mjs. The
+// server also reports who is connected to the room, which decides the peers
+// to connect to.
+export class WebSocketSignalingTransport implements SignalingTransport {
+  private socket: WebSocket | null = null;
+  private outbox: string[] = [];
+  private handlers: Record<string, SignalingHandlers> = {};
+  // Messages from peers nobody has subscribed to yet
+  private inbox: Record<
+    string,
+    { channel: SignalChannel; payload: unknown }[]
+  > = {};
+  // Other sessions in the room, as last reported by the server
+  private present = new Set<string>();
+  private presenceHandlers = new Set<PresenceHandlers>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Set once the join is sent; signals queue in the outbox until then
+  private joined = false;
+  private closed = false;
+
+  constructor(
+    readonly roomId: string,
+    readonly sessionId: string,
+    private readonly url: string
+  ) {
+    this.connect();
+  }
+
+  private connect() {
+    log.debug(`Connecting to signaling server at ${this.url}`);
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    this.joined = false;
+
+    socket.onopen = async () => {
+      log.debug("Signaling server connected, joining room", this.roomId);
+      // The server checks the token against our participant node
+      let token: string | undefined;
+      try {
+        token = await auth.currentUser?.getIdToken();
+      } catch (error) {
+        log.error("Error getting ID token for signaling:", error);
+      }
+      if (socket.readyState !== WebSocket.OPEN) return;
+
+      socket.send(
+        JSON.stringify({
+          kind: "join",
+          roomId: this.roomId,
+          peerId: this.sessionId,
+          token,
+        })
+      );
+      this.joined = true;
+      this.outbox.forEach((message) => socket.send(message));
+      this.outbox = [];
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        this.dispatch(JSON.parse(event.data));
+      } catch (error) {
+        log.error("Error handling signaling server message:", error);
+      }
+    };
+
+    socket.onerror = (event) => {
+      log.error("Signaling server socket error:", event);
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket || this.closed) return;
+      if (event.code === CLOSE_REPLACED || event.code === CLOSE_UNAUTHORIZED) {
+        log.error(`Signaling server closed the connection: ${event.reason}`);
+        return;
+      }
+      log.debug("Signaling server connection lost, reconnecting...");
+      this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_DELAY);
+    };
+  }
+
+  private dispatch(message: ServerMessage) {
+    switch (message.kind) {
+      case "signal":
+        this.deliver(message.from, message.channel, message.payload);
+        break;
+      case "presence": {
+        // Sent on every (re)join; whoever is missing left while we were away
+        const peers = new Set(message.peers);
+        this.present.forEach((peerId) => {
+          if (!peers.has(peerId)) this.peerLeft(peerId);
+        });
+        peers.forEach((peerId) => this.peerJoined(peerId));
+        break;
+      }
+      case "peer-joined":
+        this.peerJoined(message.peerId);
+        break;
+      case "peer-left":
+        this.handlers[message.peerId]?.onBye();
+        this.peerLeft(message.peerId);
+        break;
+      case "error":
+        log.error("Signaling server error:", message.message);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private peerJoined(peerId: string) {
+    if (this.present.has(peerId)) return;
+    this.present.add(peerId);
+    this.presenceHandlers.forEach((handlers) => handlers.onPeerJoined(peerId));
+  }
+
+  private peerLeft(peerId: string) {
+    if (!this.present.delete(peerId)) return;
+    this.presenceHandlers.forEach((handlers) => handlers.onPeerLeft(peerId));
+  }
+
+  private deliver(peerId: string, channel: SignalChannel, payload: unknown) {
+    const handlers = this.handlers[peerId];
+    if (!handlers) {
+      (this.inbox[peerId] ||= []).push({ channel, payload });
+      return;
+    }
+
+    switch (channel) {
+      case "offer":
+        handlers.onOffer(withType(payload, "offer"));
+        break;
+      case "answer":
+        handlers.onAnswer(withType(payload, "answer"));
+        break;
+      case "candidate":
+        handlers.onCandidate(payload);
+        break;
+      case "bye":
+        handlers.onBye();
+        break;
+    }
+  }
+
+  private stamp() {
+    return { sessionId: this.sessionId, timestamp: Date.now() };
+  }
+
+  private send(to: string, channel: SignalChannel, payload: unknown) {
+    const message = JSON.stringify({ kind: "signal", to, channel, payload });
+    if (this.joined && this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(message);
+    } else {
+      this.outbox.push(message);
+    }
+  }
+
+  async sendOffer(peerId: string, offer: SessionDescriptionMessage) {
+    this.send(
+      peerId,
+      "offer",
+      offerSchema.parse({ type: "offer", sdp: offer.sdp, ...this.stamp() })
+    );
+  }
+
+  async sendAnswer(peerId: string, answer: SessionDescriptionMessage) {
+    this.send(
+      peerId,
+      "answer",
+      answerSchema.parse({ type: "answer", sdp: answer.sdp, ...this.stamp() })
+    );
+  }
+
+  async sendCandidate(peerId: string, candidate: IceCandidateMessage) {
+    this.send(
+      peerId,
+      "candidate",
+      candidateSchema.parse({ ...candidate, ...this.stamp() })
+    );
+  }
+
+  async sendBye(peerId: string) {
+    this.send(peerId, "bye", this.stamp());
+  }
+
+  subscribe(peerId: string, handlers: SignalingHandlers) {
+    this.handlers[peerId] = handlers;
+
+    const buffered = this.inbox[peerId] || [];
+    delete this.inbox[peerId];
+    buffered.forEach(({ channel, payload }) =>
+      this.deliver(peerId, channel, payload)
+    );
+
+    return () => {
+      if (this.handlers[peerId] === handlers) {
+        delete this.handlers[peerId];
+      }
+    };
+  }
+
+  subscribePresence(handlers: PresenceHandlers) {
+    this.presenceHandlers.add(handlers);
+    this.present.forEach((peerId) => handlers.onPeerJoined(peerId));
+
+    return () => {
+      this.presenceHandlers.delete(handlers);
+    };
+  }
+
+  // The server keeps no history, so there is nothing stale to remove
+  async reset() {
+    this.inbox = {};
+  }
+
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ kind: "leave" }));
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.outbox = [];
+    this.handlers = {};
+    this.present.clear();
+    this.presenceHandlers.clear();
+  }
+}
@@ -0,0 +1,40 @@
+// Video quality layers. In SFU rooms every layer is published at once
+// (simulcast) and the server forwards the one each subscriber asks for. Mesh
+// connections send a single encoding, so the sender rescales it to the layer
+// the receiving peer asked for over the control data channel instead.
+
+export type VideoLayer = "low" | "medium" | "high";
+
+type VideoLayerEncoding = {
+  rid: string;
+  scaleResolutionDownBy: number;
+  maxBitrate: number;
+};
+
+export const VIDEO_LAYERS: Record<VideoLayer, VideoLayerEncoding> = {
+  low: { rid: "l", scaleResolutionDownBy: 4, maxBitrate: 150_000 },
+  medium: { rid: "m", scaleResolutionDownBy: 2, maxBitrate: 500_000 },
+  high: { rid: "h", scaleResolutionDownBy: 1, maxBitrate: 1_500_000 },
+};
+
+// Ordered from lowest to highest as browsers expect for simulcast
+export const SIMULCAST_ENCODINGS: RTCRtpEncodingParameters[] = [
+  VIDEO_LAYERS.low,
+  VIDEO_LAYERS.medium,
+  VIDEO_LAYERS.high,
+];
+
+// Own keys only; `in` would also accept inherited names like "toString"
+export const isVideoLayer = (value: unknown): value is VideoLayer =>
+  typeof value === "string" &&
+  Object.prototype.hasOwnProperty.call(VIDEO_LAYERS, value);
+
+// Smallest layer that still looks sharp in a tile of the given CSS size
+export const layerForSize = (width: number, height: number): VideoLayer => {
+  const scale =
+    typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
+  const pixels = Math.min(width * (9 / 16), height) * scale;
+  if (pixels <= 240) return "low";
+  if (pixels <= 480) return "medium";
+  return "high";
+};
@@ -0,0 +1,50 @@
+import { createHmac } from "crypto";
+import { createLogger } from "./logger";
+
+const log = createLogger("webrtc");
+
+export type IceServersResponse = {
+  iceServers: RTCIceServer[];
+  // Seconds the credentials stay valid, and the absolute expiry in ms
+  ttl: number;
+  expiresAt: number;
+};
+
+const DEFAULT_STUN_URLS =
+  "stun:stun1.l.google.com:19302,stun:stun2.l.google.com:19302";
+const DEFAULT_TTL = 3600;
+
+const parseUrls = (value: string | undefined) =>
+  (value || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+// Issue time-limited TURN credentials using the TURN REST API scheme
+// (draft-uberti-behave-turn-rest): the username is "<expiry>:<uid>" and the
+// password is base64(HMAC-SHA1(secret, username)). coturn validates these with
+// `use-auth-secret` and the same `static-auth-secret`.
+export const createIceServers = (uid: string): IceServersResponse => {
+  const ttl = Number(process.env.TURN_CREDENTIAL_TTL) || DEFAULT_TTL;
+  const expiry = Math.floor(Date.now() / 1000) + ttl;
+  const iceServers: RTCIceServer[] = [];
+
+  const stunUrls = parseUrls(process.env.STUN_URLS ?? DEFAULT_STUN_URLS);
+  if (stunUrls.length > 0) {
+    iceServers.push({ urls: stunUrls });
+  }
+
+  const turnUrls = parseUrls(process.env.TURN_URLS);
+  const secret = process.env.TURN_SECRET;
+  if (turnUrls.length > 0 && secret) {
+    const username = `${expiry}:${uid}`;
+    const credential = createHmac("sha1", secret)
+      .update(username)
+      .digest("base64");
+    iceServers.push({ urls: turnUrls, username, credential });
+  } else if (turnUrls.length > 0) {
+    log.warn("TURN_URLS is set but TURN_SECRET is missing, skipping TURN");
+  }
+
+  return { iceServers, ttl, expiresAt: expiry * 1000 };
+};
@@ -54,5 +54,5 @@ export function middleware(request: NextRequest) {
 
 // Configure the paths that should trigger this middleware
 export const config = {
-  matcher: ["/", "/login", "/signup", "/dashboard", "/room/:path*"],
+  matcher: ["/", "/login", "/signup", "/dashboard", "/test", "/room/:path*"],
 };
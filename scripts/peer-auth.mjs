@@ -0,0 +1,61 @@
+// Checks who is joining a room on the self-hosted signaling and SFU servers.
+// Clients send their Firebase ID token with every join, and the peer ID they
+// join as must be a session of that user in the room's participants. Reading
+// participants needs the same service account as scripts/sweep-signaling.mjs
+// (or FIREBASE_DATABASE_EMULATOR_HOST).
+import { initializeApp, cert } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getDatabase } from "firebase-admin/database";
+
+const projectId =
+  process.env.FIREBASE_PROJECT_ID ||
+  process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ||
+  "demo-project";
+const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n");
+
+const app = initializeApp({
+  projectId,
+  databaseURL:
+    process.env.FIREBASE_DATABASE_URL ||
+    `https://${projectId}-default-rtdb.firebaseio.com`,
+  ...(clientEmail && privateKey
+    ? { credential: cert({ projectId, clientEmail, privateKey }) }
+    : {}),
+});
+const auth = getAuth(app);
+const db = getDatabase(app);
+
+// Close codes the clients know not to reconnect after
+export const CLOSE_REPLACED = 4000;
+export const CLOSE_UNAUTHORIZED = 4001;
+
+// RTDB keys cannot contain these, so such IDs can never be participants
+const isKey = (value) =>
+  typeof value === "string" && value.length > 0 && !/[.#$/[\]]/.test(value);
+
+// Resolves to the verified uid, or rejects with a message safe to send back
+export const verifyPeer = async (token, roomId, peerId) => {
+  if (!isKey(roomId) || !isKey(peerId)) {
+    throw new Error("join requires roomId and peerId");
+  }
+  if (typeof token !== "string" || !token) {
+    throw new Error("join requires an ID token");
+  }
+
+  let uid;
+  try {
+    ({ uid } = await auth.verifyIdToken(token));
+  } catch (error) {
+    console.error("Error verifying ID token:", error?.message);
+    throw new Error("invalid ID token");
+  }
+
+  const snapshot = await db
+    .ref(`rooms/${roomId}/participants/${peerId}/uid`)
+    .get();
+  if (snapshot.val() !== uid) {
+    throw new Error("not a session of this user in the room");
+  }
+  return uid;
+};
@@ -0,0 +1,452 @@
+// Self-hosted Selective Forwarding Unit for rooms created in "sfu" mode.
+//
+//   npm run sfu            (listens on SFU_PORT, default 8788)
+//
+// Every client keeps two peer connections to the server: a publisher that
+// carries its camera and microphone once, and a subscriber the server uses to
+// forward everyone else's tracks. Publishers are always offered by the client
+// and subscribers by the server, so offers never collide. Forwarded tracks are
+// grouped in a stream whose ID is the publishing peer's ID.
+//
+// Video is published as simulcast (see lib/simulcast.ts) and each subscriber
+// picks the layer it receives from every publisher with a "layer" message.
+//
+// Client -> server: join, leave, publish-offer, subscribe-answer, candidate,
+//                   layer
+// Server -> client: publish-answer, subscribe-offer, candidate, peer-left, error
+//
+// A join carries the user's Firebase ID token; see scripts/peer-auth.mjs.
+//
+// The server needs UDP reachability from clients. Pin its ICE ports with
+// SFU_ICE_PORT_RANGE=50000-50100 to open them in a firewall; STUN_URLS is used
+// to discover its public address.
+import { WebSocketServer } from "ws";
+import { MediaStream, MediaStreamTrack, RTCPeerConnection } from "werift";
+import {
+  CLOSE_REPLACED,
+  CLOSE_UNAUTHORIZED,
+  verifyPeer,
+} from "./peer-auth.mjs";
+
+const port = Number(process.env.SFU_PORT || 8788);
+const HEARTBEAT_INTERVAL = 30000;
+// Simulcast rids from lowest to highest quality
+const LAYERS = ["l", "m", "h"];
+const DEFAULT_LAYER = "h";
+
+const stunUrls = (process.env.STUN_URLS ?? "stun:stun1.l.google.com:19302")
+  .split(",")
+  .map((url) => url.trim())
+  .filter(Boolean);
+const portRange = process.env.SFU_ICE_PORT_RANGE?.split("-").map(Number);
+
+const peerConfig = {
+  iceServers: stunUrls.map((urls) => ({ urls })),
+  ...(portRange?.length === 2 ? { icePortRange: portRange } : {}),
+};
+
+// roomId -> Map<peerId, client>
+const rooms = new Map();
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const createConnection = (client, target) => {
+  const pc = new RTCPeerConnection(peerConfig);
+  pc.onIceCandidate.subscribe((candidate) => {
+    if (candidate) {
+      send(client.socket, {
+        kind: "candidate",
+        target,
+        candidate: candidate.toJSON(),
+      });
+    }
+  });
+  return pc;
+};
+
+// Ask a publisher for a keyframe on one of its tracks so a subscriber can
+// start decoding it
+const requestKeyframe = (forward) => {
+  const entry = forward.publisher.published.get(forward.kind);
+  if (entry && forward.source?.ssrc) {
+    entry.receiver.sendRtcpPLI(forward.source.ssrc).catch(() => {});
+  }
+};
+
+// The published track closest to the requested layer without going over it,
+// or the lowest one available. Tracks sent without simulcast have no rid.
+const pickSource = (entry, rid = DEFAULT_LAYER) => {
+  if (!entry || entry.tracks.size === 0) return null;
+  if (entry.tracks.has(rid)) return entry.tracks.get(rid);
+
+  const rids = [...entry.tracks.keys()].sort(
+    (a, b) => LAYERS.indexOf(a) - LAYERS.indexOf(b)
+  );
+  const below = rids.filter(
+    (layer) => LAYERS.indexOf(layer) <= LAYERS.indexOf(rid)
+  );
+  return entry.tracks.get(below.at(-1) ?? rids[0]);
+};
+
+// Point a forward at another published track. The sender rewrites sequence
+// numbers and timestamps from the new source's last header so the outgoing
+// stream stays continuous across the switch.
+const setForwardSource = (forward, source) => {
+  if (forward.source === source) return;
+
+  forward.rtp?.unSubscribe();
+  if (forward.source && source.header) {
+    forward.track.onSourceChanged.execute(source.header);
+  }
+  forward.source = source;
+  forward.rtp = source.onReceiveRtp.subscribe((packet) =>
+    forward.track.writeRtp(packet)
+  );
+  requestKeyframe(forward);
+};
+
+const stopForward = (forward) => {
+  forward.rtp?.unSubscribe();
+  forward.pli.unSubscribe();
+};
+
+// (Re)offer the subscriber connection. Offers are serialized: a change made
+// while one is outstanding is picked up once its answer arrives.
+const negotiateSubscriber = async (client) => {
+  if (client.closed) return;
+  if (client.negotiating) {
+    client.renegotiate = true;
+    return;
+  }
+
+  client.negotiating = true;
+  client.renegotiate = false;
+  try {
+    await client.subscriber.setLocalDescription(
+      await client.subscriber.createOffer()
+    );
+    send(client.socket, {
+      kind: "subscribe-offer",
+      sdp: client.subscriber.localDescription.sdp,
+    });
+  } catch (error) {
+    client.negotiating = false;
+    console.error(`Error offering subscriber to ${client.peerId}:`, error);
+  }
+};
+
+const addForward = (client, publisher, kind) => {
+  const key = `${publisher.peerId}:${kind}`;
+  const source = pickSource(
+    publisher.published.get(kind),
+    client.layers.get(publisher.peerId)
+  );
+  if (!source || client.forwards.has(key)) return false;
+
+  const track = new MediaStreamTrack({ kind });
+  const sender = client.subscriber.addTrack(
+    track,
+    new MediaStream({ id: publisher.peerId })
+  );
+  const forward = { publisher, kind, sender, track, source: null, rtp: null };
+  forward.pli = sender.onPictureLossIndication.subscribe(() =>
+    requestKeyframe(forward)
+  );
+  setForwardSource(forward, source);
+
+  client.forwards.set(key, forward);
+  return true;
+};
+
+// Re-pick the layer a subscriber receives from a publisher, e.g. after it
+// asked for another one or a new layer started arriving. Returns true when a
+// forward was added and the subscriber has to be renegotiated.
+const updateForward = (client, publisher, kind) => {
+  const forward = client.forwards.get(`${publisher.peerId}:${kind}`);
+  if (!forward) return addForward(client, publisher, kind);
+
+  const source = pickSource(
+    publisher.published.get(kind),
+    client.layers.get(publisher.peerId)
+  );
+  if (source) setForwardSource(forward, source);
+  return false;
+};
+
+const removeForward = (client, key) => {
+  const forward = client.forwards.get(key);
+  if (!forward) return false;
+
+  stopForward(forward);
+  client.subscriber.removeTrack(forward.sender);
+  client.forwards.delete(key);
+  return true;
+};
+
+const removeForwards = (client, publisherId) => {
+  let removed = false;
+  for (const key of [...client.forwards.keys()]) {
+    if (key.startsWith(`${publisherId}:`)) {
+      removed = removeForward(client, key) || removed;
+    }
+  }
+  return removed;
+};
+
+const othersInRoom = (client) =>
+  [...(rooms.get(client.roomId)?.values() || [])].filter(
+    (other) => other !== client
+  );
+
+const leave = (client) => {
+  if (client.closed) return;
+  client.closed = true;
+
+  const room = rooms.get(client.roomId);
+  if (room?.get(client.peerId) === client) {
+    room.delete(client.peerId);
+    if (room.size === 0) rooms.delete(client.roomId);
+  }
+
+  for (const other of othersInRoom(client)) {
+    if (removeForwards(other, client.peerId)) negotiateSubscriber(other);
+    send(other.socket, { kind: "peer-left", peerId: client.peerId });
+  }
+
+  for (const forward of client.forwards.values()) stopForward(forward);
+  client.publisher?.close();
+  client.subscriber.close();
+  console.log(`${client.peerId} left room ${client.roomId}`);
+};
+
+const join = async (socket, roomId, peerId, token) => {
+  let uid;
+  try {
+    uid = await verifyPeer(token, roomId, peerId);
+  } catch (error) {
+    console.warn(`Refused join to room ${roomId} as ${peerId}:`, error.message);
+    send(socket, { kind: "error", message: error.message });
+    socket.close(CLOSE_UNAUTHORIZED, "Unauthorized");
+    return;
+  }
+  // The socket may have closed while the token was being verified
+  if (socket.readyState !== socket.OPEN) return;
+
+  if (socket.client) leave(socket.client);
+
+  let room = rooms.get(roomId);
+  if (!room) {
+    room = new Map();
+    rooms.set(roomId, room);
+  }
+
+  // A reconnecting client replaces its previous socket. Only the same user
+  // may do that, never someone who merely knows the peer ID.
+  const previous = room.get(peerId);
+  if (previous) {
+    if (previous.uid !== uid) {
+      send(socket, { kind: "error", message: "peer ID is in use" });
+      socket.close(CLOSE_UNAUTHORIZED, "Unauthorized");
+      return;
+    }
+    leave(previous);
+    previous.socket.close(CLOSE_REPLACED, "Replaced by a new connection");
+  }
+
+  const client = {
+    socket,
+    uid,
+    roomId,
+    peerId,
+    publisher: null,
+    subscriber: null,
+    // kind -> { receiver, tracks: Map<rid, track> } received from this client
+    published: new Map(),
+    // `${publisherId}:${kind}` -> forward to this client
+    forwards: new Map(),
+    // publisherId -> video layer this client asked for
+    layers: new Map(),
+    negotiating: false,
+    renegotiate: false,
+    closed: false,
+  };
+  client.subscriber = createConnection(client, "subscriber");
+  socket.client = client;
+  room.set(peerId, client);
+  console.log(`${peerId} joined room ${roomId} (${room.size} peers)`);
+
+  let added = false;
+  for (const publisher of othersInRoom(client)) {
+    for (const kind of publisher.published.keys()) {
+      added = addForward(client, publisher, kind) || added;
+    }
+  }
+  if (added) negotiateSubscriber(client);
+};
+
+const handlePublishOffer = async (client, sdp) => {
+  if (!client.publisher) {
+    const publisher = createConnection(client, "publisher");
+    publisher.onTrack.subscribe((track) => {
+      const transceiver = publisher
+        .getTransceivers()
+        .find((t) => t.receiver.tracks.includes(track));
+      if (!transceiver) return;
+
+      console.log(
+        `${client.peerId} is publishing ${track.kind}` +
+          (track.rid ? ` layer ${track.rid}` : "")
+      );
+
+      // A new transceiver for the same kind replaces the old one
+      let entry = client.published.get(track.kind);
+      const replaced = entry?.receiver !== transceiver.receiver;
+      if (replaced) {
+        entry = { receiver: transceiver.receiver, tracks: new Map() };
+        client.published.set(track.kind, entry);
+      }
+      entry.tracks.set(track.rid ?? "", track);
+
+      for (const other of othersInRoom(client)) {
+        const removed =
+          replaced && removeForward(other, `${client.peerId}:${track.kind}`);
+        if (updateForward(other, client, track.kind) || removed) {
+          negotiateSubscriber(other);
+        }
+      }
+    });
+    client.publisher = publisher;
+  }
+
+  await client.publisher.setRemoteDescription({ type: "offer", sdp });
+  await client.publisher.setLocalDescription(
+    await client.publisher.createAnswer()
+  );
+  send(client.socket, {
+    kind: "publish-answer",
+    sdp: client.publisher.localDescription.sdp,
+  });
+};
+
+const handleSubscribeAnswer = async (client, sdp) => {
+  await client.subscriber.setRemoteDescription({ type: "answer", sdp });
+  client.negotiating = false;
+
+  for (const forward of client.forwards.values()) {
+    requestKeyframe(forward);
+  }
+  if (client.renegotiate) negotiateSubscriber(client);
+};
+
+const handleCandidate = async (client, target, candidate) => {
+  const pc = target === "publisher" ? client.publisher : client.subscriber;
+  if (!pc || !candidate?.candidate) return;
+  await pc.addIceCandidate(candidate);
+};
+
+const handleLayer = (client, publisherId, rid) => {
+  if (typeof publisherId !== "string" || !LAYERS.includes(rid)) {
+    send(client.socket, { kind: "error", message: "invalid layer request" });
+    return;
+  }
+
+  client.layers.set(publisherId, rid);
+  const publisher = rooms.get(client.roomId)?.get(publisherId);
+  if (publisher && client.forwards.has(`${publisherId}:video`)) {
+    updateForward(client, publisher, "video");
+  }
+};
+
+const handle = async (socket, message) => {
+  if (message.kind === "join") {
+    await join(socket, message.roomId, message.peerId, message.token);
+    return;
+  }
+
+  const client = socket.client;
+  if (!client || client.closed) {
+    send(socket, { kind: "error", message: "join a room first" });
+    return;
+  }
+
+  switch (message.kind) {
+    case "leave":
+      leave(client);
+      socket.client = null;
+      break;
+    case "publish-offer":
+      await handlePublishOffer(client, message.sdp);
+      break;
+    case "subscribe-answer":
+      await handleSubscribeAnswer(client, message.sdp);
+      break;
+    case "candidate":
+      await handleCandidate(client, message.target, message.candidate);
+      break;
+    case "layer":
+      handleLayer(client, message.peerId, message.layer);
+      break;
+    default:
+      send(socket, { kind: "error", message: "unknown message kind" });
+  }
+};
+
+const server = new WebSocketServer({ port });
+
+server.on("connection", (socket) => {
+  socket.isAlive = true;
+  socket.on("pong", () => {
+    socket.isAlive = true;
+  });
+
+  // Messages are handled one at a time so candidates never overtake the
+  // description they belong to
+  let queue = Promise.resolve();
+  socket.on("message", (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send(socket, { kind: "error", message: "invalid JSON" });
+      return;
+    }
+
+    queue = queue
+      .then(() => handle(socket, message))
+      .catch((error) => {
+        console.error(`Error handling ${message.kind}:`, error);
+        send(socket, { kind: "error", message: String(error?.message) });
+      });
+  });
+
+  socket.on("close", () => {
+    if (socket.client) leave(socket.client);
+  });
+});
+
+// Drop sockets that stopped answering pings so rooms stay accurate
+const heartbeat = setInterval(() => {
+  for (const socket of server.clients) {
+    if (!socket.isAlive) {
+      socket.terminate();
+      continue;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  }
+}, HEARTBEAT_INTERVAL);
+
+server.on("close", () => clearInterval(heartbeat));
+
+const shutdown = () => {
+  server.close();
+  process.exit(0);
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+console.log(`SFU listening on ws://localhost:${port}`);
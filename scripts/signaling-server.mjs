@@ -0,0 +1,191 @@
+// Self-hosted WebSocket signaling server, an alternative to Firebase RTDB.
+//
+//   npm run signaling            (listens on SIGNALING_PORT, default 8787)
+//
+// Clients join a room with { kind: "join", roomId, peerId, token } and then
+// relay { kind: "signal", to, channel, payload } messages to a single peer.
+// The payloads are the same offer/answer/candidate/bye shapes stored in RTDB.
+// The token is the user's Firebase ID token; see scripts/peer-auth.mjs.
+import { WebSocketServer } from "ws";
+import {
+  CLOSE_REPLACED,
+  CLOSE_UNAUTHORIZED,
+  verifyPeer,
+} from "./peer-auth.mjs";
+
+const port = Number(process.env.SIGNALING_PORT || 8787);
+const HEARTBEAT_INTERVAL = 30000;
+const CHANNELS = new Set(["offer", "answer", "candidate", "bye"]);
+
+// roomId -> Map<peerId, WebSocket>
+const rooms = new Map();
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const broadcast = (roomId, message, exceptPeerId) => {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  for (const [peerId, socket] of room) {
+    if (peerId !== exceptPeerId) send(socket, message);
+  }
+};
+
+const leave = (socket) => {
+  const { roomId, peerId } = socket;
+  if (!roomId || !peerId) return;
+
+  const room = rooms.get(roomId);
+  if (room?.get(peerId) === socket) {
+    room.delete(peerId);
+    if (room.size === 0) rooms.delete(roomId);
+    broadcast(roomId, { kind: "peer-left", peerId });
+    console.log(`${peerId} left room ${roomId}`);
+  }
+
+  socket.roomId = null;
+  socket.peerId = null;
+};
+
+const join = async (socket, roomId, peerId, token) => {
+  let uid;
+  try {
+    uid = await verifyPeer(token, roomId, peerId);
+  } catch (error) {
+    console.warn(`Refused join to room ${roomId} as ${peerId}:`, error.message);
+    send(socket, { kind: "error", message: error.message });
+    socket.close(CLOSE_UNAUTHORIZED, "Unauthorized");
+    return;
+  }
+  // The socket may have closed while the token was being verified
+  if (socket.readyState !== socket.OPEN) return;
+
+  leave(socket);
+
+  let room = rooms.get(roomId);
+  if (!room) {
+    room = new Map();
+    rooms.set(roomId, room);
+  }
+
+  // A reconnecting client replaces its previous socket. Only the same user
+  // may do that; the session check makes this hold already, but never trust
+  // a replacement on the peer ID alone.
+  const previous = room.get(peerId);
+  if (previous && previous !== socket) {
+    if (previous.uid !== uid) {
+      send(socket, { kind: "error", message: "peer ID is in use" });
+      socket.close(CLOSE_UNAUTHORIZED, "Unauthorized");
+      return;
+    }
+    previous.roomId = null;
+    previous.peerId = null;
+    previous.close(CLOSE_REPLACED, "Replaced by a new connection");
+  }
+
+  socket.uid = uid;
+  socket.roomId = roomId;
+  socket.peerId = peerId;
+  send(socket, {
+    kind: "presence",
+    peers: [...room.keys()].filter((id) => id !== peerId),
+  });
+  room.set(peerId, socket);
+  broadcast(roomId, { kind: "peer-joined", peerId }, peerId);
+  console.log(`${peerId} joined room ${roomId} (${room.size} peers)`);
+};
+
+const relay = (socket, message) => {
+  const { roomId, peerId } = socket;
+  if (!roomId || !peerId) {
+    send(socket, { kind: "error", message: "join a room before signaling" });
+    return;
+  }
+  if (!CHANNELS.has(message.channel) || typeof message.to !== "string") {
+    send(socket, { kind: "error", message: "invalid signal message" });
+    return;
+  }
+
+  const target = rooms.get(roomId)?.get(message.to);
+  if (!target) return;
+
+  send(target, {
+    kind: "signal",
+    from: peerId,
+    channel: message.channel,
+    payload: message.payload,
+  });
+};
+
+const handle = async (socket, message) => {
+  switch (message.kind) {
+    case "join":
+      await join(socket, message.roomId, message.peerId, message.token);
+      break;
+    case "leave":
+      leave(socket);
+      break;
+    case "signal":
+      relay(socket, message);
+      break;
+    default:
+      send(socket, { kind: "error", message: "unknown message kind" });
+  }
+};
+
+const server = new WebSocketServer({ port });
+
+server.on("connection", (socket) => {
+  socket.isAlive = true;
+  socket.on("pong", () => {
+    socket.isAlive = true;
+  });
+
+  // Messages are handled one at a time, so signals sent right after a join
+  // wait for its token to be verified
+  let queue = Promise.resolve();
+  socket.on("message", (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send(socket, { kind: "error", message: "invalid JSON" });
+      return;
+    }
+
+    queue = queue
+      .then(() => handle(socket, message))
+      .catch((error) => {
+        console.error(`Error handling ${message.kind}:`, error);
+        send(socket, { kind: "error", message: String(error?.message) });
+      });
+  });
+
+  socket.on("close", () => leave(socket));
+});
+
+// Drop sockets that stopped answering pings so presence stays accurate
+const heartbeat = setInterval(() => {
+  for (const socket of server.clients) {
+    if (!socket.isAlive) {
+      socket.terminate();
+      continue;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  }
+}, HEARTBEAT_INTERVAL);
+
+server.on("close", () => clearInterval(heartbeat));
+
+const shutdown = () => {
+  server.close();
+  process.exit(0);
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+console.log(`Signaling server listening on ws://localhost:${port}`);
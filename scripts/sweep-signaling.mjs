@@ -0,0 +1,120 @@
+// Garbage-collect stale signaling data under rooms/{id}/offers, /answers,
+// /candidates and /byes. Senders and receivers are session IDs, so an entry is
+// stale when either session is no longer a participant, when it is stamped
+// with a session other than its sender's, or when it is older than --max-age.
+//
+//   npm run sweep:signaling -- [--max-age 600] [--interval 300] [--dry-run]
+//
+// Against the emulator:
+//   FIREBASE_DATABASE_EMULATOR_HOST=127.0.0.1:9000 npm run sweep:signaling
+import { initializeApp, cert } from "firebase-admin/app";
+import { getDatabase } from "firebase-admin/database";
+
+const SIGNALING_NODES = ["offers", "answers", "candidates", "byes"];
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? fallback : Number(args[index + 1]);
+};
+const maxAge = option("max-age", 600) * 1000;
+const interval = option("interval", 0) * 1000;
+const dryRun = args.includes("--dry-run");
+
+const projectId =
+  process.env.FIREBASE_PROJECT_ID ||
+  process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ||
+  "demo-project";
+const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n");
+
+const app = initializeApp({
+  projectId,
+  databaseURL:
+    process.env.FIREBASE_DATABASE_URL ||
+    `https://${projectId}-default-rtdb.firebaseio.com`,
+  ...(clientEmail && privateKey
+    ? { credential: cert({ projectId, clientEmail, privateKey }) }
+    : {}),
+});
+const db = getDatabase(app);
+
+const isStale = (entry, senderId, sender, receiver, now) => {
+  if (!sender || !receiver) return "participant left";
+  if (entry?.sessionId && entry.sessionId !== senderId) {
+    return "earlier session";
+  }
+  if (entry?.timestamp && sender.joined && entry.timestamp < sender.joined) {
+    return "sent before sender joined";
+  }
+  if (!entry?.timestamp || now - entry.timestamp > maxAge) {
+    return "expired";
+  }
+  return null;
+};
+
+const sweepRoom = async (roomId, room, now) => {
+  const participants = room.participants || {};
+  const removals = {};
+
+  for (const node of SIGNALING_NODES) {
+    for (const [senderId, receivers] of Object.entries(room[node] || {})) {
+      for (const [receiverId, value] of Object.entries(receivers || {})) {
+        const sender = participants[senderId];
+        const receiver = participants[receiverId];
+        const path = `rooms/${roomId}/${node}/${senderId}/${receiverId}`;
+
+        // Candidates are a list of pushed entries, the rest single objects
+        const entries =
+          node === "candidates"
+            ? Object.entries(value || {}).map(([key, entry]) => [
+                `${path}/${key}`,
+                entry,
+              ])
+            : [[path, value]];
+
+        for (const [entryPath, entry] of entries) {
+          const reason = isStale(entry, senderId, sender, receiver, now);
+          if (reason) {
+            removals[entryPath] = null;
+            console.log(`Removing ${entryPath} (${reason})`);
+          }
+        }
+      }
+    }
+  }
+
+  const count = Object.keys(removals).length;
+  if (count > 0 && !dryRun) {
+    await db.ref().update(removals);
+  }
+  return count;
+};
+
+const sweep = async () => {
+  const now = Date.now();
+  const snapshot = await db.ref("rooms").get();
+  let removed = 0;
+
+  for (const [roomId, room] of Object.entries(snapshot.val() || {})) {
+    removed += await sweepRoom(roomId, room, now);
+  }
+
+  console.log(
+    `${dryRun ? "Would remove" : "Removed"} ${removed} stale signaling entries`
+  );
+};
+
+const run = async () => {
+  await sweep();
+  if (interval > 0) {
+    setTimeout(run, interval);
+  } else {
+    await app.delete();
+  }
+};
+
+run().catch((error) => {
+  console.error("Error sweeping signaling data:", error);
+  process.exit(1);
+});